@@ -2,11 +2,14 @@
 export * from "./src/component.ts";
 export * from "./src/controls.ts";
 export * from "./src/event_emitter.ts";
+export * from "./src/focus_manager.ts";
+export * from "./src/form.ts";
 export * from "./src/input.ts";
 export * from "./src/theme.ts";
 export * from "./src/types.ts";
 export * from "./src/view.ts";
 export * from "./src/tui.ts";
+export * from "./src/virtual_terminal.ts";
 
 export * from "./src/signals/mod.ts";
 
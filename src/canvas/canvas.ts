@@ -75,7 +75,6 @@ export class Canvas extends EventEmitter<CanvasEventMap> {
     const { omitCells, objectsUnder } = object;
 
     const zIndex = object.zIndex.peek();
-    const rectangle = object.rectangle.peek();
 
     for (const omitRows of omitCells) {
       omitRows?.clear();
@@ -83,26 +82,33 @@ export class Canvas extends EventEmitter<CanvasEventMap> {
 
     objectsUnder.clear();
 
+    // Parts of objects clipped by their views neither cover nor get covered by other objects
+    const rectangle = object.visibleRectangle();
+    if (!rectangle) return;
+
     for (const object2 of this.drawnObjects) {
       if (object === object2 || object2.outOfBounds) continue;
 
-      const zIndex2 = object2.zIndex.peek();
+      const rectangle2 = object2.visibleRectangle();
+      if (!rectangle2) continue;
 
-      if (zIndex2 < zIndex || (zIndex2 === zIndex && object2.id < object.id)) {
-        if (rectangleIntersection(rectangle, object2.rectangle.peek(), false)) {
-          objectsUnder.add(object2);
-        }
-        continue;
-      }
+      const zIndex2 = object2.zIndex.peek();
 
-      const intersection = rectangleIntersection(rectangle, object2.rectangle.peek(), true);
+      const intersection = rectangleIntersection(rectangle, rectangle2, true);
 
       if (!intersection) continue;
 
+      const isUnder = zIndex2 < zIndex || (zIndex2 === zIndex && object2.id < object.id);
+
+      // Object might've been drawn or moved after object2 had its intersections updated
+      if (isUnder) objectsUnder.add(object2);
+      else object2.objectsUnder.add(object);
+
+      const coveredCells = isUnder ? object2.omitCells : omitCells;
       const rowRange = intersection.row + intersection.height;
       const columnRange = intersection.column + intersection.width;
       for (let row = intersection.row; row < rowRange; ++row) {
-        const omitColumns = omitCells[row] ??= new Set();
+        const omitColumns = coveredCells[row] ??= new Set();
 
         for (let column = intersection.column; column < columnRange; ++column) {
           omitColumns.add(column);
@@ -55,6 +55,7 @@ export class DrawObject<Type extends string = string> {
   moved: boolean;
 
   #styleSubscription: Subscription<Style>;
+  #visibleRectangle: Rectangle;
 
   constructor(type: Type, options: DrawObjectOptions) {
     this.id = id++;
@@ -63,6 +64,7 @@ export class DrawObject<Type extends string = string> {
     this.canvas = options.canvas;
 
     this.viewOffset = { columns: 0, rows: 0 };
+    this.#visibleRectangle = { column: 0, row: 0, width: 0, height: 0 };
 
     this.omitCells = [];
     this.rerenderCells = [];
@@ -183,19 +185,39 @@ export class DrawObject<Type extends string = string> {
     }
   }
 
-  queueRerender(row: number, column: number): void {
-    const viewRectangle = this.view.peek()?.rectangle?.peek();
-    if (row < 0 || column < 0) return;
+  /** Returns whether cell at given {row} and {column} fits within canvas and isn't clipped by object's view */
+  isCellVisible(row: number, column: number): boolean {
+    if (row < 0 || column < 0) return false;
     const { columns, rows } = this.canvas.size.peek();
-    if (row >= rows || column >= columns) return;
+    if (row >= rows || column >= columns) return false;
 
-    if (
-      viewRectangle && (
-        row < viewRectangle.row || column < viewRectangle.column ||
-        row >= viewRectangle.row + viewRectangle.height || column >= viewRectangle.column + viewRectangle.width
-      )
-    ) return;
+    const viewRectangle = this.view.peek()?.rectangle?.peek();
+    return !viewRectangle || fitsInRectangle(column, row, viewRectangle);
+  }
+
+  /**
+   * Returns part of object's rectangle that isn't clipped by its view or `false` if it's clipped entirely
+   *
+   * **Returned rectangle gets reused, don't hold onto it!**
+   */
+  visibleRectangle(): Rectangle | false {
+    const rectangle = this.rectangle.peek();
+    const viewRectangle = this.view.peek()?.rectangle?.peek();
+    if (!viewRectangle) return rectangle;
 
+    const intersection = rectangleIntersection(rectangle, viewRectangle, true);
+    if (!intersection) return false;
+
+    const visibleRectangle = this.#visibleRectangle;
+    visibleRectangle.column = intersection.column;
+    visibleRectangle.row = intersection.row;
+    visibleRectangle.width = intersection.width;
+    visibleRectangle.height = intersection.height;
+    return visibleRectangle;
+  }
+
+  queueRerender(row: number, column: number): void {
+    if (!this.isCellVisible(row, column)) return;
     (this.rerenderCells[row] ??= new Set()).add(column);
   }
 
@@ -255,20 +277,8 @@ export class DrawObject<Type extends string = string> {
 
     this.outOfBounds = width === 0 || height === 0 ||
       column >= columns || row >= rows ||
-      column + width < 0 || row + height < 0;
-
-    if (!this.outOfBounds) {
-      const viewRectangle = this.view.peek()?.rectangle?.peek();
-      if (!viewRectangle) return;
-
-      if (
-        column > viewRectangle.column + viewRectangle.width ||
-        row > viewRectangle.row + viewRectangle.height ||
-        column + width < viewRectangle.column || row + height < viewRectangle.row
-      ) {
-        this.outOfBounds = true;
-      }
-    }
+      column + width < 0 || row + height < 0 ||
+      !this.visibleRectangle();
   }
 
   update(): void {
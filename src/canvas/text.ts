@@ -2,11 +2,13 @@
 import { DrawObject, DrawObjectOptions } from "./draw_object.ts";
 
 import { getMultiCodePointCharacters, textWidth } from "../utils/strings.ts";
+import { markupStyle, parseMarkup } from "../utils/markup.ts";
 import { fitsInRectangle, rectangleEquals, rectangleIntersection } from "../utils/numbers.ts";
 import { Effect, Signal, SignalOfObject } from "../signals/mod.ts";
 import { Rectangle } from "../types.ts";
 import { signalify } from "../utils/signals.ts";
 import { Subscription } from "../signals/types.ts";
+import { Style } from "../theme.ts";
 
 /**
  * Type that describes position and size of TextObject
@@ -20,18 +22,102 @@ export interface TextObjectOptions extends DrawObjectOptions {
   overwriteRectangle?: boolean | Signal<boolean>;
   rectangle: TextRectangle | SignalOfObject<TextRectangle>;
   multiCodePointSupport?: boolean | Signal<boolean>;
+  /** Whether `value` should be parsed as markup (see `parseMarkup`), defaults to false */
+  markup?: boolean | Signal<boolean>;
+  /** Style of each character of `value`, applied within object's `style`, ignored when `markup` is enabled */
+  charStyles?: (Style | undefined)[] | Signal<(Style | undefined)[]>;
+}
+
+/**
+ * Splits {chars} into cells, each one of them taking exactly one column.
+ *
+ * Wide characters take two cells, second of which is an empty string.
+ * Zero-width characters get merged into preceding cell.
+ */
+function charsToCells(chars: string | string[], cells: string[] = []): string[] {
+  for (const char of chars) {
+    const width = textWidth(char);
+
+    if (width === 0 && cells.length) {
+      const last = cells.length - 1;
+      if (cells[last] === "") cells[last - 1] += char;
+      else cells[last] += char;
+      continue;
+    }
+
+    cells.push(char);
+    for (let i = 1; i < width; ++i) {
+      cells.push("");
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Splits {text} into cells and styles of each of them.
+ *
+ * When {markup} is enabled, every cell gets style of the markup span it's part of.
+ * Otherwise every cell gets style of the character it's part of from {charStyles}.
+ */
+function textToCells(
+  text: string,
+  multiCodePointSupport: boolean,
+  markup: boolean,
+  charStyles: (Style | undefined)[],
+): { chars: string | string[]; cells: string[]; cellStyles: (Style | undefined)[] } {
+  if (!markup) {
+    const chars = multiCodePointSupport ? getMultiCodePointCharacters(text) : text;
+    if (!charStyles.length) return { chars, cells: charsToCells(chars), cellStyles: [] };
+
+    const cells: string[] = [];
+    const cellStyles: (Style | undefined)[] = [];
+    let i = 0;
+    for (const char of chars) {
+      charsToCells(char, cells);
+      while (cellStyles.length < cells.length) cellStyles.push(charStyles[i]);
+      ++i;
+    }
+
+    return { chars, cells, cellStyles };
+  }
+
+  const chars: string[] = [];
+  const cells: string[] = [];
+  const cellStyles: (Style | undefined)[] = [];
+
+  for (const span of parseMarkup(text)) {
+    const spanChars = multiCodePointSupport ? getMultiCodePointCharacters(span.text) : [...span.text];
+    chars.push(...spanChars);
+    charsToCells(spanChars, cells);
+
+    const style = markupStyle(span.tags);
+    while (cellStyles.length < cells.length) cellStyles.push(style);
+  }
+
+  return { chars, cells, cellStyles };
 }
 
 /**
  * DrawObject that's responsible for rendering text.
  *
  * Keep in mind its not designed to render mutliline text!
+ *
+ * Wide characters which are partially clipped by view or covered by other objects get replaced with spaces.
+ *
+ * With `markup` enabled or `charStyles` set each cell gets styled separately, so styles never leak outside of their cells.
  */
 export class TextObject extends DrawObject<"text"> {
   text: Signal<string>;
   valueChars: string[] | string;
+  /** Text split into cells, one per column (see `charsToCells`) */
+  valueCells: string[];
+  /** Markup style of each cell, empty when `markup` is disabled */
+  cellStyles: (Style | undefined)[];
   overwriteRectangle: Signal<boolean>;
   multiCodePointSupport: Signal<boolean>;
+  markup: Signal<boolean>;
+  charStyles: Signal<(Style | undefined)[]>;
 
   #rectangleSubscription: Subscription<Rectangle>;
   #updateEffect: Effect;
@@ -43,7 +129,18 @@ export class TextObject extends DrawObject<"text"> {
     this.rectangle = signalify(options.rectangle as Rectangle);
     this.overwriteRectangle = signalify(options.overwriteRectangle ?? false);
     this.multiCodePointSupport = signalify(options.multiCodePointSupport ?? false);
-    this.valueChars = this.multiCodePointSupport.value ? getMultiCodePointCharacters(this.text.value) : this.text.value;
+    this.markup = signalify(options.markup ?? false);
+    this.charStyles = signalify(options.charStyles ?? []);
+
+    const { chars, cells, cellStyles } = textToCells(
+      this.text.peek(),
+      this.multiCodePointSupport.peek(),
+      this.markup.peek(),
+      this.charStyles.peek(),
+    );
+    this.valueChars = chars;
+    this.valueCells = cells;
+    this.cellStyles = cellStyles;
 
     const { updateObjects } = this.canvas;
 
@@ -52,10 +149,18 @@ export class TextObject extends DrawObject<"text"> {
       rectangle: Rectangle,
       multiCodePointSupport: boolean,
       overwriteRectangle: boolean,
+      markup: boolean,
+      charStyles: (Style | undefined)[],
     ): void => {
+      const { valueCells: previousValueCells, cellStyles: previousCellStyles } = this;
+      const { chars, cells: valueCells, cellStyles } = textToCells(text, multiCodePointSupport, markup, charStyles);
+      this.valueChars = chars;
+      this.valueCells = valueCells;
+      this.cellStyles = cellStyles;
+
       if (!overwriteRectangle) {
         const lastWidth = rectangle.width;
-        rectangle.width = textWidth(text);
+        rectangle.width = markup ? valueCells.length : textWidth(text);
 
         if (rectangle.width !== lastWidth) {
           this.moved = true;
@@ -67,17 +172,15 @@ export class TextObject extends DrawObject<"text"> {
         rectangle.height = 1;
       }
 
-      const { valueChars: previousValueChars } = this;
-      const valueChars: string | string[] = this.valueChars = multiCodePointSupport
-        ? getMultiCodePointCharacters(text)
-        : text;
+      const cellChanged = (c: number) =>
+        valueCells[c] !== previousValueCells[c] || cellStyles[c] !== previousCellStyles[c];
 
       const { row, column, width } = rectangle;
       const barrier = overwriteRectangle
-        ? (width < previousValueChars.length ? width : -1)
-        : (valueChars.length < previousValueChars.length ? valueChars.length : -1);
+        ? (width < previousValueCells.length ? width : -1)
+        : (valueCells.length < previousValueCells.length ? valueCells.length : -1);
 
-      const columnRange = Math.max(valueChars.length, previousValueChars.length);
+      const columnRange = Math.max(valueCells.length, previousValueCells.length);
 
       if (barrier !== -1) {
         for (let c = 0; c < columnRange; ++c) {
@@ -85,13 +188,13 @@ export class TextObject extends DrawObject<"text"> {
             for (const objectUnder of this.objectsUnder) {
               objectUnder.queueRerender(row, column + c);
             }
-          } else if (valueChars[c] !== previousValueChars[c]) {
+          } else if (cellChanged(c)) {
             this.queueRerender(row, column + c);
           }
         }
       } else {
         for (let c = 0; c < columnRange; ++c) {
-          if (valueChars[c] !== previousValueChars[c]) {
+          if (cellChanged(c)) {
             this.queueRerender(row, column + c);
           }
         }
@@ -102,13 +205,15 @@ export class TextObject extends DrawObject<"text"> {
       const text = this.text.peek();
       const multiCodePointSupport = this.multiCodePointSupport.peek();
       const overwriteRectangle = this.overwriteRectangle.peek();
+      const markup = this.markup.peek();
+      const charStyles = this.charStyles.peek();
 
       this.moved = true;
       for (const objectUnder of this.objectsUnder) {
         objectUnder.moved = true;
       }
 
-      update(text, rectangle, multiCodePointSupport, overwriteRectangle);
+      update(text, rectangle, multiCodePointSupport, overwriteRectangle, markup, charStyles);
     };
 
     this.#updateEffect = new Effect(() => {
@@ -116,6 +221,8 @@ export class TextObject extends DrawObject<"text"> {
       const rectangle = this.rectangle.peek();
       const overwriteRectangle = this.overwriteRectangle.value;
       const multiCodePointSupport = this.multiCodePointSupport.value;
+      const markup = this.markup.value;
+      const charStyles = this.charStyles.value;
 
       this.updated = false;
       updateObjects.push(this);
@@ -125,7 +232,7 @@ export class TextObject extends DrawObject<"text"> {
         updateObjects.push(objectUnder);
       }
 
-      update(text, rectangle, multiCodePointSupport, overwriteRectangle);
+      update(text, rectangle, multiCodePointSupport, overwriteRectangle, markup, charStyles);
     });
   }
 
@@ -181,50 +288,55 @@ export class TextObject extends DrawObject<"text"> {
   }
 
   rerender(): void {
-    const { canvas, valueChars, omitCells, rerenderCells } = this;
+    const { canvas, valueCells, cellStyles, omitCells, rerenderCells } = this;
 
     const { frameBuffer, rerenderQueue } = canvas;
-    const { columns, rows } = canvas.size.peek();
 
     const rectangle = this.rectangle.peek();
     const style = this.style.peek();
 
     const { row } = rectangle;
 
-    let rowRange = Math.min(row, rows);
-    let columnRange = Math.min(rectangle.column + valueChars.length, columns);
-
-    const viewRectangle = this.view.peek()?.rectangle?.peek();
-    if (viewRectangle) {
-      rowRange = Math.min(row, viewRectangle.row + viewRectangle.height);
-      columnRange = Math.min(columnRange, viewRectangle.column + viewRectangle.width);
-    }
-
-    if (row > rowRange) return;
-
     const rerenderColumns = rerenderCells[row];
     if (!rerenderColumns) return;
 
     const omitColumns = omitCells[row];
-    if (omitColumns?.size === valueChars.length) {
+    if (omitColumns?.size === valueCells.length) {
       return;
     }
 
     const rowBuffer = frameBuffer[row] ??= [];
-
     const rerenderQueueRow = rerenderQueue[row] ??= new Set();
 
+    const styleCell = (column: number) => {
+      const index = column - rectangle.column;
+      const cellStyle = cellStyles[index];
+      return style(cellStyle ? cellStyle(valueCells[index]) : valueCells[index]);
+    };
+
+    const isVisible = (column: number) =>
+      column >= rectangle.column && column < rectangle.column + valueCells.length &&
+      !omitColumns?.has(column) && this.isCellVisible(row, column);
+
     for (const column of rerenderColumns) {
-      if (
-        column >= columnRange ||
-        column < rectangle.column ||
-        omitColumns?.has(column)
-      ) {
-        continue;
+      if (!isVisible(column)) continue;
+
+      const cell = valueCells[column - rectangle.column];
+
+      // Wide characters get rendered only when both of their halves are visible
+      const start = cell === "" ? column - 1 : column;
+      if (valueCells[start - rectangle.column + 1] !== "") {
+        rowBuffer[column] = styleCell(column);
+        rerenderQueueRow.add(column);
+      } else if (isVisible(start) && isVisible(start + 1)) {
+        rowBuffer[start] = styleCell(start);
+        rowBuffer[start + 1] = "";
+        rerenderQueueRow.add(start);
+        rerenderQueueRow.add(start + 1);
+      } else {
+        rowBuffer[column] = style(" ");
+        rerenderQueueRow.add(column);
       }
-
-      rowBuffer[column] = style(valueChars[column - rectangle.column]);
-      rerenderQueueRow.add(column);
     }
 
     rerenderColumns.clear();
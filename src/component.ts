@@ -8,6 +8,7 @@ import { SortedArray } from "./utils/sorted_array.ts";
 import { DrawObject } from "./canvas/draw_object.ts";
 import { View } from "./view.ts";
 import { InputEventRecord } from "./input_reader/mod.ts";
+import type { KeyPressEvent, MouseEvent } from "./input_reader/types.ts";
 import { Computed, Signal, SignalOfObject } from "./signals/mod.ts";
 import { signalify } from "./utils/signals.ts";
 
@@ -19,6 +20,20 @@ export interface ComponentOptions {
   visible?: boolean | Signal<boolean>;
   rectangle: Rectangle | SignalOfObject<Rectangle>;
   view?: View | undefined | SignalOfObject<View | undefined>;
+  /**
+   * Position of component in focus order when cycling focus using Tab/Shift+Tab
+   *
+   *  - Positive values get focused first, in ascending order
+   *  - 0 (default) gets focused in the order components were added
+   *  - Negative values get skipped
+   */
+  tabIndex?: number | Signal<number>;
+  /**
+   * When set to true (and component is visible) keyboard and mouse focus stays within this component and its descendants.
+   *
+   * Once it gets set to false or component gets hidden or destroyed, focus goes back to previously focused component.
+   */
+  focusScope?: boolean | Signal<boolean>;
 }
 
 /** Type defining last interaction component experienced */
@@ -27,11 +42,17 @@ export interface Interaction {
   method: "keyboard" | "mouse" | undefined;
 }
 
-/** Possible states of a component */
-export type ComponentState = keyof Theme;
+/** Possible states of a component, being hovered isn't one of them (see `Component.hovered`) */
+export type ComponentState = Exclude<keyof Theme, "hovered">;
 
 export class Component extends EventEmitter<
-  { destroy: EmitterEvent<[Component]> } & InputEventRecord
+  {
+    destroy: EmitterEvent<[Component]>;
+    focus: EmitterEvent<[Component]>;
+    blur: EmitterEvent<[Component]>;
+    mouseEnter: EmitterEvent<[MouseEvent]>;
+    mouseLeave: EmitterEvent<[MouseEvent]>;
+  } & InputEventRecord
 > {
   #drawn: boolean;
   #destroyed: boolean;
@@ -40,8 +61,12 @@ export class Component extends EventEmitter<
 
   visible: Signal<boolean>;
   state: Signal<ComponentState>;
+  /** Whether mouse pointer is over this component, it gets updated by `handleMouseControls` */
+  hovered: Signal<boolean>;
   view: Signal<View | undefined>;
   zIndex: Signal<number>;
+  tabIndex: Signal<number>;
+  focusScope: Signal<boolean>;
   rectangle: SignalOfObject<Rectangle>;
   style: Signal<Style>;
 
@@ -63,7 +88,6 @@ export class Component extends EventEmitter<
     const { parent } = this;
     const tui = this.tui = options.tui ?? ("tui" in parent ? parent.tui : parent);
 
-    this.parent.children.push(this);
     this.children = new SortedArray();
     this.drawnObjects = {};
     this.subComponents = {};
@@ -73,10 +97,14 @@ export class Component extends EventEmitter<
       method: undefined,
     };
 
-    this.view = signalify(options.view);
     this.zIndex = signalify(options.zIndex);
+    this.tabIndex = signalify(options.tabIndex ?? 0);
+    this.focusScope = signalify(options.focusScope ?? false);
     this.visible = signalify(options.visible ?? true);
     this.rectangle = signalify(options.rectangle, { deepObserve: true, watchObjectIndex: true });
+    this.view = signalify(options.view ?? ("tui" in parent ? parent.viewForChild(this) : undefined));
+
+    this.parent.children.push(this);
 
     this.visible.subscribe((visible) => {
       if (this.#destroyed) return;
@@ -94,13 +122,29 @@ export class Component extends EventEmitter<
     });
 
     this.state = new Signal<ComponentState>("base");
+    this.hovered = new Signal(false);
     this.theme = hierarchizeTheme(options.theme);
     this.style = new Computed(() => {
       const state = this.state.value;
-      return this.theme[state];
+      const hovered = this.hovered.value;
+      return hovered && state === "base" ? this.theme.hovered : this.theme[state];
     });
 
+    const focusScopeActive = new Computed(() => this.focusScope.value && this.visible.value);
+    const updateFocusScope = (active: boolean) => {
+      if (this.#destroyed) return;
+
+      const { focusManager } = this.tui;
+      if (active) focusManager.pushScope(this);
+      else focusManager.popScope(this);
+    };
+    focusScopeActive.subscribe(updateFocusScope);
+    updateFocusScope(focusScopeActive.peek());
+
     tui.on("keyPress", (event) => {
+      // Components react only to key presses, releases are still emitted by Tui
+      if (event.release) return;
+
       const state = this.state.peek();
       if (state === "focused" || state === "active") {
         this.emit("keyPress", event);
@@ -124,6 +168,24 @@ export class Component extends EventEmitter<
         this.emit("mouseScroll", event);
       }
     });
+    tui.on("mouseMove", (event) => {
+      // Pointer motion matters to the component under it rather than the focused one
+      if (this.hovered.peek()) {
+        this.emit("mouseMove", event);
+      }
+    });
+    tui.on("paste", (event) => {
+      const state = this.state.peek();
+      if (state === "focused" || state === "active") {
+        this.emit("paste", event);
+      }
+    });
+    tui.on("textInput", (event) => {
+      const state = this.state.peek();
+      if (state === "focused" || state === "active") {
+        this.emit("textInput", event);
+      }
+    });
 
     queueMicrotask(() => {
       this.tui.addChild(this);
@@ -138,6 +200,22 @@ export class Component extends EventEmitter<
     this.lastInteraction.method = method;
   }
 
+  /**
+   * Whether component handles {keyPress} by itself while it's focused,
+   * in which case keyboard controls (see `handleKeyboardControls`) ignore it
+   */
+  capturesKey(_keyPress: KeyPressEvent): boolean {
+    return false;
+  }
+
+  /**
+   * Returns view which {child} gets placed in when it's created without one,
+   * it gets called from child's constructor so {child} isn't fully set up yet
+   */
+  viewForChild(_child: Component): View | undefined {
+    return undefined;
+  }
+
   /**
    * Changes visibility of `drawnObjects` (erases/draws them depending on {visible})
    *
@@ -169,8 +247,19 @@ export class Component extends EventEmitter<
    *  - calls `destroy()` on its children
    *  - Removes itself from `subComponentOf.subComponents`
    *  - Removes itself from `parent.children`
+   *  - Removes itself from `tui.components`
+   *  - Loses focus if it was focused and releases its focus scope
    */
   destroy(): void {
+    const { tui } = this;
+    const { focusManager } = tui;
+
+    tui.components.delete(this);
+    focusManager.popScope(this);
+    if (focusManager.focused.peek() === this) {
+      focusManager.focus(undefined);
+    }
+
     this.emit("destroy", this);
     this.#destroyed = true;
 
@@ -180,7 +269,7 @@ export class Component extends EventEmitter<
     const { children } = this.parent;
     children.splice(children.indexOf(this), 1);
 
-    for (const child of this.children) {
+    for (const child of [...this.children]) {
       child.destroy();
     }
 
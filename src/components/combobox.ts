@@ -46,8 +46,11 @@ export class ComboBox<Items extends string[] = string[]> extends Button {
     const selectedItemSignal = signalify(options.selectedItem);
     const itemsSignal = signalify(options.items, { deepObserve: true });
     const placeholderSignal = signalify(options.placeholder ?? "");
+    const expandedSignal = new Signal(false);
 
     Object.assign(options, {
+      // Keep focus within combobox and its items while it's expanded
+      focusScope: expandedSignal,
       label: {
         text: new Computed(() => {
           const items = itemsSignal.value;
@@ -61,7 +64,7 @@ export class ComboBox<Items extends string[] = string[]> extends Button {
     super(options);
 
     this.items = itemsSignal;
-    this.expanded = new Signal(false);
+    this.expanded = expandedSignal;
     this.placeholder = placeholderSignal;
     this.selectedItem = selectedItemSignal;
 
@@ -0,0 +1,330 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Component, ComponentOptions } from "../component.ts";
+import { Button } from "./button.ts";
+import { Frame, FrameUnicodeCharacters, FrameUnicodeCharactersType } from "./frame.ts";
+import { Label, LabelRectangle } from "./label.ts";
+
+import { BoxObject } from "../canvas/box.ts";
+
+import type { DeepPartial, Rectangle } from "../types.ts";
+import { Theme } from "../theme.ts";
+import { textWidth } from "../utils/strings.ts";
+import { Computed, Signal, SignalOfObject } from "../signals/mod.ts";
+import { signalify } from "../utils/signals.ts";
+
+export interface DialogTheme extends Theme {
+  backdrop: Theme;
+  frame: Theme;
+  title: Theme;
+  text: Theme;
+  button: Theme;
+}
+
+/** Button shown at the bottom of the dialog, {action} is what dialog resolves with after it gets pressed */
+export interface DialogButton<Action extends string = string> {
+  label: string;
+  action: Action;
+}
+
+/** Type that describes size of Dialog, its position gets calculated so it's centered within Tui */
+export type DialogRectangle = Pick<Rectangle, "width" | "height">;
+
+export interface DialogOptions<Action extends string = string>
+  extends Omit<ComponentOptions, "rectangle" | "focusScope"> {
+  /** Parts of the dialog which don't have their own theme specified use dialog's theme */
+  theme: DeepPartial<DialogTheme>;
+  rectangle: DialogRectangle | SignalOfObject<DialogRectangle>;
+  title?: string | Signal<string>;
+  text: string | Signal<string>;
+  buttons: DialogButton<Action>[];
+  charMap?: keyof typeof FrameUnicodeCharacters | FrameUnicodeCharactersType;
+  /** Whether to cover rest of the Tui with box styled using `theme.backdrop` */
+  backdrop?: boolean | Signal<boolean>;
+  /** Action which dialog resolves with when it gets closed using Escape, defaults to `undefined` */
+  cancelAction?: Action;
+}
+
+/**
+ * Component for creating modal dialogs
+ *
+ * Dialog is centered within Tui and keeps focus trapped within its buttons until it gets closed.
+ * Its `result` resolves with action of the pressed button or `cancelAction` when Escape gets pressed
+ * (or dialog gets destroyed some other way, e.g. along with Tui).
+ *
+ * @example
+ * ```ts
+ * const dialog = new Dialog({
+ *  parent: tui,
+ *  title: "Quit",
+ *  text: "Do you really want to quit?",
+ *  buttons: [
+ *    { label: "Yes", action: "yes" },
+ *    { label: "No", action: "no" },
+ *  ],
+ *  cancelAction: "no",
+ *  backdrop: true,
+ *  theme: {
+ *    base: crayon.bgBlack.white,
+ *    backdrop: { base: crayon.bgLightBlack },
+ *    frame: { base: crayon.bgBlack.white },
+ *    title: { base: crayon.bgBlack.bold.white },
+ *    text: { base: crayon.bgBlack.white },
+ *    button: {
+ *      base: crayon.bgBlue,
+ *      focused: crayon.bgLightBlue,
+ *      active: crayon.bgMagenta,
+ *    },
+ *  },
+ *  rectangle: {
+ *    width: 30,
+ *    height: 7,
+ *  },
+ *  zIndex: 10,
+ * });
+ *
+ * if (await dialog.result === "yes") {
+ *   tui.emit("destroy");
+ * }
+ * ```
+ */
+export class Dialog<Action extends string = string> extends Component {
+  declare theme: DialogTheme;
+  declare drawnObjects: { backdrop?: BoxObject; box: BoxObject };
+  declare subComponents: { frame: Frame; title: Label; text: Label; [button: number]: Button };
+
+  #resolve!: (action: Action | undefined) => void;
+  #offKeyPress: () => void;
+  #backdrop?: BoxObject;
+
+  title: Signal<string>;
+  text: Signal<string>;
+  size: Signal<DialogRectangle>;
+  backdrop: Signal<boolean>;
+  charMap: Signal<FrameUnicodeCharactersType>;
+  buttons: DialogButton<Action>[];
+  cancelAction?: Action;
+  result: Promise<Action | undefined>;
+
+  constructor(options: DialogOptions<Action>) {
+    const { parent } = options;
+    const theme: DeepPartial<DialogTheme> = { ...options.theme };
+    for (const part of ["backdrop", "frame", "title", "text", "button"] as const) {
+      theme[part] ??= options.theme;
+    }
+
+    const tui = options.tui ?? ("tui" in parent ? parent.tui : parent);
+    const sizeSignal = signalify(options.rectangle, { deepObserve: true });
+
+    const dialogRectangle = { column: 0, row: 0, width: 0, height: 0 };
+    super({
+      ...options,
+      theme,
+      focusScope: true,
+      rectangle: new Computed(() => {
+        const { width, height } = sizeSignal.value;
+        const tuiRectangle = tui.rectangle.value;
+
+        dialogRectangle.column = tuiRectangle.column + ~~((tuiRectangle.width - width) / 2);
+        dialogRectangle.row = tuiRectangle.row + ~~((tuiRectangle.height - height) / 2);
+        dialogRectangle.width = width;
+        dialogRectangle.height = height;
+        return dialogRectangle;
+      }),
+    });
+
+    this.size = sizeSignal;
+    this.title = signalify(options.title ?? "");
+    this.text = signalify(options.text);
+    this.backdrop = signalify(options.backdrop ?? false);
+    this.charMap = signalify(
+      typeof options.charMap === "string"
+        ? FrameUnicodeCharacters[options.charMap]
+        : options.charMap ?? FrameUnicodeCharacters.sharp,
+    );
+    this.buttons = options.buttons;
+    this.cancelAction = options.cancelAction;
+
+    this.result = new Promise((resolve) => {
+      this.#resolve = resolve;
+    });
+
+    this.#offKeyPress = this.tui.on("keyPress", (keyPress) => {
+      const { key, ctrl, meta, shift, release } = keyPress;
+      if (key !== "escape" || ctrl || meta || shift || release) return;
+      // Only the top-most dialog should get closed
+      const { focusManager } = this.tui;
+      if (focusManager.scopes.at(-1)?.container !== this) return;
+      // Focused component might use Escape itself (e.g. Input hiding its suggestions)
+      if (focusManager.focused.peek()?.capturesKey(keyPress)) return;
+      this.close(this.cancelAction);
+    });
+
+    this.backdrop.subscribe(() => {
+      this.#updateBackdrop();
+    });
+
+    this.#createSubComponents();
+
+    // Focus scope got pushed before buttons existed,
+    // focus gets moved in a microtask so buttons' styles are already tracking their state
+    queueMicrotask(() => {
+      const button = this.subComponents[0];
+      if (!button || !this.visible.peek() || this.tui.focusManager.focused.peek()) return;
+      this.tui.focusManager.focus(button);
+    });
+  }
+
+  /** Resolve `result` with {action} and destroy the dialog */
+  close(action?: Action): void {
+    this.#resolve(action);
+    this.destroy();
+  }
+
+  /** Destroy the dialog, unless it got closed `result` resolves with `cancelAction` */
+  destroy(): void {
+    this.#resolve(this.cancelAction);
+    this.#offKeyPress();
+    super.destroy();
+  }
+
+  draw(): void {
+    super.draw();
+
+    const { canvas } = this.tui;
+
+    // Backdrop has to be created before dialog's box, so it ends up under it
+    this.#backdrop = new BoxObject({
+      canvas,
+      style: new Computed(() => this.theme.backdrop[this.state.value]),
+      zIndex: this.zIndex,
+      rectangle: this.tui.rectangle,
+    });
+
+    const box = new BoxObject({
+      canvas,
+      view: this.view,
+      style: this.style,
+      zIndex: this.zIndex,
+      rectangle: this.rectangle,
+    });
+
+    this.drawnObjects.box = box;
+    this.#updateBackdrop();
+    box.draw();
+  }
+
+  #updateBackdrop(): void {
+    const backdrop = this.#backdrop;
+    // Dialog hasn't been drawn yet
+    if (!backdrop) return;
+
+    const { drawnObjects } = this;
+    const enabled = this.backdrop.peek();
+    if (enabled === !!drawnObjects.backdrop) return;
+
+    if (enabled) drawnObjects.backdrop = backdrop;
+    else delete drawnObjects.backdrop;
+
+    // Hidden dialog has its drawn objects already erased
+    if (!this.visible.peek()) return;
+
+    if (enabled) backdrop.draw();
+    else backdrop.erase();
+  }
+
+  #createSubComponents(): void {
+    const { subComponents } = this;
+
+    const frameRectangle = { column: 0, row: 0, width: 0, height: 0 };
+    const frame = new Frame({
+      parent: this,
+      theme: this.theme.frame,
+      zIndex: this.zIndex,
+      charMap: this.charMap.peek(),
+      rectangle: new Computed(() => {
+        const { column, row, width, height } = this.rectangle.value;
+        frameRectangle.column = column + 1;
+        frameRectangle.row = row + 1;
+        frameRectangle.width = Math.max(width - 2, 0);
+        frameRectangle.height = Math.max(height - 2, 0);
+        return frameRectangle;
+      }),
+    });
+    frame.charMap = this.charMap;
+
+    const titleRectangle: LabelRectangle = { column: 0, row: 0, width: 0, height: 1 };
+    const title = new Label({
+      parent: this,
+      theme: this.theme.title,
+      zIndex: this.zIndex,
+      overwriteRectangle: true,
+      align: { horizontal: "center", vertical: "top" },
+      text: new Computed(() => {
+        const title = this.title.value;
+        return title ? ` ${title} ` : "";
+      }),
+      rectangle: new Computed(() => {
+        const { column, row, width } = this.rectangle.value;
+        titleRectangle.column = column + 2;
+        titleRectangle.row = row;
+        titleRectangle.width = Math.max(width - 4, 0);
+        return titleRectangle;
+      }),
+    });
+
+    const textRectangle: LabelRectangle = { column: 0, row: 0, width: 0, height: 0 };
+    const text = new Label({
+      parent: this,
+      theme: this.theme.text,
+      zIndex: this.zIndex,
+      overwriteRectangle: true,
+      text: this.text,
+      rectangle: new Computed(() => {
+        const { column, row, width, height } = this.rectangle.value;
+        textRectangle.column = column + 2;
+        textRectangle.row = row + 1;
+        textRectangle.width = Math.max(width - 4, 0);
+        // Leave space for frame, buttons and a gap between them and text
+        textRectangle.height = Math.max(height - 4, 0);
+        return textRectangle;
+      }),
+    });
+
+    subComponents.frame = frame;
+    subComponents.title = title;
+    subComponents.text = text;
+
+    for (const [i, { label, action }] of this.buttons.entries()) {
+      const buttonRectangle = { column: 0, row: 0, width: textWidth(label) + 2, height: 1 };
+
+      const button = new Button({
+        parent: this,
+        theme: this.theme.button,
+        zIndex: this.zIndex,
+        label: { text: label },
+        rectangle: new Computed(() => {
+          const { column, row, width, height } = this.rectangle.value;
+
+          // Buttons are centered and separated by a single column
+          let buttonsWidth = this.buttons.length - 1;
+          let offset = 0;
+          for (const [j, { label }] of this.buttons.entries()) {
+            const labelWidth = textWidth(label) + 2;
+            if (j < i) offset += labelWidth + 1;
+            buttonsWidth += labelWidth;
+          }
+
+          buttonRectangle.column = column + ~~((width - buttonsWidth) / 2) + offset;
+          buttonRectangle.row = row + height - 2;
+          return buttonRectangle;
+        }),
+      });
+
+      button.state.when("active", () => {
+        this.close(action);
+      });
+
+      subComponents[i] = button;
+    }
+  }
+}
@@ -6,18 +6,23 @@ import { DeepPartial } from "../types.ts";
 import { ComponentOptions } from "../component.ts";
 
 import { Computed, Signal, SignalOfObject } from "../signals/mod.ts";
+import { KeyPressEvent } from "../input_reader/types.ts";
 
 import { BoxObject } from "../canvas/box.ts";
 import { TextObject, TextRectangle } from "../canvas/text.ts";
 
 import { clamp } from "../utils/numbers.ts";
 import { signalify } from "../utils/signals.ts";
-import { cropToWidth, insertAt } from "../utils/strings.ts";
+import { applyMask, cropToWidth, insertAt, textWidth } from "../utils/strings.ts";
 
 export interface InputTheme extends Theme {
   value: Theme;
   cursor: Theme;
   placeholder: Theme;
+  /** Used instead of base theme and `value` when text isn't valid */
+  invalid: Theme;
+  suggestion: Theme;
+  selectedSuggestion: Theme;
 }
 
 export interface InputRectangle {
@@ -29,7 +34,16 @@ export interface InputRectangle {
 
 export interface InputOptions extends Omit<ComponentOptions, "rectangle"> {
   text?: string | Signal<string>;
+  /** Characters that don't match it get rejected while typing */
   validator?: RegExp | Signal<RegExp | undefined>;
+  /** Mask which typed text gets fit into (see `applyMask`), e.g. "9999-99-99" for dates */
+  mask?: string | Signal<string | undefined>;
+  /** Checks whole text without rejecting it, returns error message when text isn't valid */
+  validate?: InputValidate | Signal<InputValidate | undefined>;
+  /** Returns suggestions for given text, they get shown beneath the input */
+  autocomplete?: InputAutocomplete | Signal<InputAutocomplete | undefined>;
+  /** Maximum amount of suggestions visible at once, defaults to 5 */
+  maxSuggestions?: number | Signal<number>;
   password?: boolean | Signal<boolean>;
   placeholder?: string | Signal<string | undefined>;
   multiCodePointSupport?: boolean | Signal<boolean>;
@@ -37,6 +51,12 @@ export interface InputOptions extends Omit<ComponentOptions, "rectangle"> {
   theme: DeepPartial<InputTheme, "cursor">;
 }
 
+/** Function which returns error message when {text} isn't valid and `undefined` otherwise */
+export type InputValidate = (text: string) => string | undefined;
+
+/** Function which returns suggestions for {text} */
+export type InputAutocomplete = (text: string) => string[] | Promise<string[]>;
+
 /**
  * Component for creating interactive text input
  *
@@ -72,6 +92,39 @@ export interface InputOptions extends Omit<ComponentOptions, "rectangle"> {
  * });
  * ```
  *
+ * Text can be fit into a mask, literals like `-` get inserted automatically.
+ * @example
+ * ```ts
+ * new Input({
+ *  ...,
+ *  mask: "9999-99-99",
+ * });
+ * ```
+ *
+ * To accept any text and only report whether it's valid use `validate` property instead.
+ * Result is available through `valid` and `error` signals and invalid input gets styled using `invalid` theme.
+ * @example
+ * ```ts
+ * new Input({
+ *  ...,
+ *  validate: (text) => text.includes("@") ? undefined : "Invalid e-mail address",
+ *  theme: {
+ *    ...,
+ *    invalid: { base: crayon.bgRed },
+ *  },
+ * });
+ * ```
+ *
+ * Suggestions returned by `autocomplete` get shown beneath the input.
+ * Up/Down selects them, Tab accepts selected one and Escape hides them.
+ * @example
+ * ```ts
+ * new Input({
+ *  ...,
+ *  autocomplete: (text) => ["apple", "banana", "cherry"].filter((fruit) => fruit.startsWith(text)),
+ * });
+ * ```
+ *
  * You can also define whether text should be censored with `*` character by specifying `password` property.
  * @example
  * ```ts
@@ -96,13 +149,25 @@ export class Input extends Box {
     box: BoxObject;
     text: TextObject;
     cursor: TextObject;
+    suggestions: TextObject[];
   };
   declare theme: InputTheme;
 
+  #showSuggestions: Signal<boolean>;
+  #capturedKeyPress?: KeyPressEvent;
+
   text: Signal<string>;
   password: Signal<boolean>;
   cursorPosition: Signal<number>;
   validator: Signal<RegExp | undefined>;
+  mask: Signal<string | undefined>;
+  validate: Signal<InputValidate | undefined>;
+  error: Signal<string | undefined>;
+  valid: Signal<boolean>;
+  autocomplete: Signal<InputAutocomplete | undefined>;
+  suggestions: Signal<string[]>;
+  selectedSuggestion: Signal<number>;
+  maxSuggestions: Signal<number>;
   multiCodePointSupport: Signal<boolean>;
   placeholder: Signal<string | undefined>;
 
@@ -119,31 +184,90 @@ export class Input extends Box {
 
     this.theme.value ??= this.theme;
     this.theme.placeholder ??= this.theme.value;
+    this.theme.invalid ??= this.theme;
+    this.theme.suggestion ??= this.theme;
+    this.theme.selectedSuggestion ??= this.theme.cursor;
 
     this.cursorPosition = new Signal(0);
+    this.suggestions = new Signal<string[]>([]);
+    this.selectedSuggestion = new Signal(0);
 
     this.text = signalify(options.text ?? "");
     this.validator = signalify(options.validator);
+    this.mask = signalify(options.mask);
+    this.validate = signalify(options.validate);
+    this.autocomplete = signalify(options.autocomplete);
+    this.maxSuggestions = signalify(options.maxSuggestions ?? 5);
     this.placeholder = signalify(options.placeholder);
     this.password = signalify(options.password ?? false);
     this.multiCodePointSupport = signalify(options.multiCodePointSupport ?? false);
 
-    this.on("keyPress", ({ key, ctrl, meta }) => {
+    this.error = new Computed(() => {
+      const text = this.text.value;
+      const validate = this.validate.value;
+      return validate?.(text);
+    });
+    this.valid = new Computed(() => this.error.value === undefined);
+
+    this.style = new Computed(() => {
+      const state = this.state.value;
+      const hovered = this.hovered.value;
+      const theme = this.valid.value ? this.theme : this.theme.invalid;
+      return hovered && state === "base" ? theme.hovered : theme[state];
+    });
+
+    this.#showSuggestions = new Computed(() => {
+      const state = this.state.value;
+      const suggestions = this.suggestions.value;
+      return suggestions.length > 0 && (state === "focused" || state === "active");
+    });
+
+    this.text.subscribe(() => {
+      this.#updateSuggestions();
+    });
+
+    this.maxSuggestions.subscribe(() => {
+      if (this.drawnObjects.suggestions) this.draw();
+    });
+
+    this.on("keyPress", (keyPress) => {
+      const { key, ctrl, meta, shift } = keyPress;
       if (ctrl || meta) return;
 
       const cursorPosition = this.cursorPosition.peek();
-      const validator = this.validator.peek();
       const value = this.text.peek();
 
-      let character = "";
+      if (this.#showSuggestions.peek()) {
+        const suggestions = this.suggestions.peek();
+        const selectedSuggestion = this.selectedSuggestion.peek();
+
+        switch (key) {
+          case "up":
+            this.selectedSuggestion.value = clamp(selectedSuggestion - 1, 0, suggestions.length - 1);
+            return;
+          case "down":
+            this.selectedSuggestion.value = clamp(selectedSuggestion + 1, 0, suggestions.length - 1);
+            return;
+          case "escape":
+            this.#captureKeyPress(keyPress);
+            this.suggestions.value = [];
+            return;
+          case "tab":
+            if (shift) break;
+            this.#captureKeyPress(keyPress);
+            this.acceptSuggestion();
+            return;
+        }
+      }
+
       switch (key) {
         case "backspace":
           if (cursorPosition === 0) return;
-          this.text.value = value.slice(0, cursorPosition - 1) + value.slice(cursorPosition);
+          this.#setText(value.slice(0, cursorPosition - 1) + value.slice(cursorPosition));
           this.cursorPosition.value = clamp(cursorPosition - 1, 0, value.length);
           return;
         case "delete":
-          this.text.value = value.slice(0, cursorPosition) + value.slice(cursorPosition + 1);
+          this.#setText(value.slice(0, cursorPosition) + value.slice(cursorPosition + 1));
           return;
         case "left":
           this.cursorPosition.value = clamp(cursorPosition - 1, 0, value.length);
@@ -157,21 +281,61 @@ export class Input extends Box {
         case "end":
           this.cursorPosition.value = value.length;
           return;
-        case "space":
-          character = " ";
-          break;
-        case "tab":
-          character = "\t";
-          break;
-        default:
-          if (key.length > 1) return;
-          character = key;
       }
+    });
 
-      if (validator && !validator.test(character)) return;
-      this.text.value = insertAt(value, cursorPosition, character);
-      this.cursorPosition.value = clamp(cursorPosition + 1, 0, this.text.value.length);
+    this.on("textInput", ({ text }) => {
+      this.insert(text);
     });
+
+    this.on("paste", ({ text }) => {
+      this.insert(text);
+    });
+  }
+
+  /**
+   * Insert {text} at cursor position
+   *
+   * Characters rejected by `validator` get left out and line breaks get replaced with spaces.
+   */
+  insert(text: string): void {
+    const validator = this.validator.peek();
+    const mask = this.mask.peek();
+    const cursorPosition = this.cursorPosition.peek();
+    const value = this.text.peek();
+
+    let characters = [...text.replace(/\r\n|\r|\n/g, " ")];
+    if (validator) characters = characters.filter((character) => validator.test(character));
+
+    const inserted = characters.join("");
+    if (!inserted) return;
+
+    if (mask) {
+      const start = applyMask(value.slice(0, cursorPosition) + inserted, mask);
+      this.text.value = applyMask(start + value.slice(cursorPosition), mask);
+      this.cursorPosition.value = start.length;
+      return;
+    }
+
+    this.text.value = insertAt(value, cursorPosition, inserted);
+    this.cursorPosition.value = clamp(cursorPosition + inserted.length, 0, this.text.value.length);
+  }
+
+  /** Replaces text with currently selected suggestion */
+  acceptSuggestion(): void {
+    const suggestion = this.suggestions.peek()[this.selectedSuggestion.peek()];
+    if (suggestion === undefined) return;
+
+    this.suggestions.value = [];
+    this.text.value = suggestion;
+    this.cursorPosition.value = suggestion.length;
+  }
+
+  capturesKey(keyPress: KeyPressEvent): boolean {
+    if (keyPress === this.#capturedKeyPress) return true;
+
+    const { key, shift } = keyPress;
+    return this.#showSuggestions.peek() && ((key === "tab" && !shift) || key === "escape");
   }
 
   draw(): void {
@@ -185,9 +349,12 @@ export class Input extends Box {
       view: this.view,
       zIndex: this.zIndex,
       multiCodePointSupport: this.multiCodePointSupport,
-      style: new Computed(() =>
-        this.theme[!this.text.value && this.placeholder ? "placeholder" : "value"][this.state.value]
-      ),
+      style: new Computed(() => {
+        const state = this.state.value;
+        const valid = this.valid.value;
+        if (!this.text.value && this.placeholder.value) return this.theme.placeholder[state];
+        return (valid ? this.theme.value : this.theme.invalid)[state];
+      }),
       value: new Computed(() => {
         const password = this.password.value;
         const placeholder = this.placeholder.value;
@@ -239,6 +406,48 @@ export class Input extends Box {
 
     text.draw();
     cursor.draw();
+
+    // Suggestions are drawn above components which might be beneath the input
+    const suggestionsZIndex = new Computed(() => this.zIndex.value + 1);
+    const suggestionsOffset = new Computed(() => {
+      const selectedSuggestion = this.selectedSuggestion.value;
+      const maxSuggestions = this.maxSuggestions.value;
+      return Math.max(selectedSuggestion - maxSuggestions + 1, 0);
+    });
+
+    this.drawnObjects.suggestions = [];
+    for (let i = 0; i < this.maxSuggestions.peek(); ++i) {
+      const suggestionRectangle: TextRectangle = { column: 0, row: 0 };
+      const suggestion = new TextObject({
+        canvas,
+        view: this.view,
+        zIndex: suggestionsZIndex,
+        multiCodePointSupport: this.multiCodePointSupport,
+        style: new Computed(() => {
+          const state = this.state.value;
+          const selected = i + suggestionsOffset.value === this.selectedSuggestion.value;
+          return this.theme[selected ? "selectedSuggestion" : "suggestion"][state];
+        }),
+        value: new Computed(() => {
+          const { width } = this.rectangle.value;
+          const showSuggestions = this.#showSuggestions.value;
+          const suggestion = this.suggestions.value[i + suggestionsOffset.value];
+          if (!showSuggestions || suggestion === undefined) return "";
+
+          const value = cropToWidth(suggestion, width);
+          return value + " ".repeat(Math.max(width - textWidth(value), 0));
+        }),
+        rectangle: new Computed(() => {
+          const { column, row } = this.rectangle.value;
+          suggestionRectangle.column = column;
+          suggestionRectangle.row = row + 1 + i;
+          return suggestionRectangle;
+        }),
+      });
+
+      this.drawnObjects.suggestions.push(suggestion);
+      suggestion.draw();
+    }
   }
 
   interact(method: "keyboard" | "mouse"): void {
@@ -250,4 +459,34 @@ export class Input extends Box {
 
     super.interact(method);
   }
+
+  /** Others might check whether key got captured after suggestions are already gone, so it's remembered until they're done */
+  #captureKeyPress(keyPress: KeyPressEvent): void {
+    this.#capturedKeyPress = keyPress;
+    queueMicrotask(() => this.#capturedKeyPress = undefined);
+  }
+
+  /** Sets text, fitting it into mask when it's set */
+  #setText(text: string): void {
+    const mask = this.mask.peek();
+    this.text.value = mask ? applyMask(text, mask) : text;
+  }
+
+  #updateSuggestions(): void {
+    const autocomplete = this.autocomplete.peek();
+    if (!autocomplete) return;
+
+    const text = this.text.peek();
+    const setSuggestions = (suggestions: string[]) => {
+      // Text might have changed while suggestions were loading
+      if (this.text.peek() !== text) return;
+
+      this.suggestions.value = suggestions.filter((suggestion) => suggestion !== text);
+      this.selectedSuggestion.value = 0;
+    };
+
+    const suggestions = autocomplete(text);
+    if (suggestions instanceof Promise) suggestions.then(setSuggestions).catch(() => {});
+    else setSuggestions(suggestions);
+  }
 }
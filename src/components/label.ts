@@ -4,7 +4,8 @@ import { TextObject, TextRectangle } from "../canvas/text.ts";
 import { Computed, Effect, Signal, SignalOfObject } from "../signals/mod.ts";
 
 import { signalify } from "../utils/signals.ts";
-import { cropToWidth, textWidth } from "../utils/strings.ts";
+import { cropToWidth, ellipsize, textWidth, wrapText } from "../utils/strings.ts";
+import { cropMarkupToWidth, ellipsizeMarkup, markupWidth, splitMarkupLines, wrapMarkup } from "../utils/markup.ts";
 
 /**
  * Type that describes position and size of Label
@@ -23,12 +24,26 @@ export interface LabelAlign {
   horizontal: "left" | "center" | "right";
 }
 
+/**
+ * Describes what happens with lines that don't fit within Label's width
+ *
+ *  - `none` – they get cut off
+ *  - `char` – they get wrapped at the last character that fits
+ *  - `word` – they get wrapped at whitespace, words longer than the width get wrapped like in `char`
+ *  - `ellipsis` – they get cut off and end with "…"
+ */
+export type LabelOverflow = "none" | "char" | "word" | "ellipsis";
+
 export interface LabelOptions extends Omit<ComponentOptions, "rectangle"> {
   text: string | Signal<string>;
   rectangle: LabelRectangle | SignalOfObject<LabelRectangle>;
   align?: LabelAlign | SignalOfObject<LabelAlign>;
   multiCodePointSupport?: boolean | Signal<boolean>;
   overwriteRectangle?: boolean | Signal<boolean>;
+  /** Whether `text` should be parsed as markup (see `parseMarkup`), defaults to false */
+  markup?: boolean | Signal<boolean>;
+  /** Takes effect only when `overwriteRectangle` is set to true, defaults to "none" */
+  overflow?: LabelOverflow | Signal<LabelOverflow>;
 }
 
 /**
@@ -63,6 +78,16 @@ export interface LabelOptions extends Omit<ComponentOptions, "rectangle"> {
  *  multiCodePointCharacter: true,
  * });
  * ```
+ * Parts of text can be styled using markup when `markup` property is set to true.
+ * Tags can span over multiple lines and don't affect text width.
+ * @example
+ * ```ts
+ * new Label({
+ *  ...,
+ *  text: "[bold red]error[/]\n[dim]details[/]",
+ *  markup: true,
+ * });
+ * ```
  * Rectangle properties – `width` and `height` are calculated automatically by default.
  * To overwrite that behaviour set `overwriteRectangle` property to true.
  *
@@ -80,6 +105,24 @@ export interface LabelOptions extends Omit<ComponentOptions, "rectangle"> {
  *  },
  * })
  * ```
+ *
+ * Lines which don't fit within overwritten `width` can be wrapped or ellipsized using `overflow` property,
+ * lines which don't fit within overwritten `height` are left out.
+ * @example
+ * ```ts
+ * new Label({
+ *  ...,
+ *  text: "Lorem ipsum dolor sit amet",
+ *  overwriteRectangle: true,
+ *  overflow: "word",
+ *  rectangle: {
+ *    column: 1,
+ *    row: 1,
+ *    width: 11,
+ *    height: 3,
+ *  },
+ * })
+ * ```
  */
 export class Label extends Component {
   declare drawnObjects: { texts: TextObject[] };
@@ -90,6 +133,8 @@ export class Label extends Component {
   align: Signal<LabelAlign>;
   overwriteRectangle: Signal<boolean>;
   multiCodePointSupport: Signal<boolean>;
+  markup: Signal<boolean>;
+  overflow: Signal<LabelOverflow>;
 
   constructor(options: LabelOptions) {
     super(options as ComponentOptions);
@@ -97,9 +142,43 @@ export class Label extends Component {
     this.text = signalify(options.text);
     this.overwriteRectangle = signalify(options.overwriteRectangle ?? false);
     this.multiCodePointSupport = signalify(options.multiCodePointSupport ?? false);
+    this.markup = signalify(options.markup ?? false);
+    this.overflow = signalify(options.overflow ?? "none");
     this.align = signalify(options.align ?? { vertical: "top", horizontal: "left" }, { deepObserve: true });
 
-    this.#valueLines = new Computed(() => this.text.value.split("\n"));
+    this.#valueLines = new Computed(() => {
+      const text = this.text.value;
+      const markup = this.markup.value;
+      const overflow = this.overflow.value;
+      const overwriteRectangle = this.overwriteRectangle.value;
+      const multiCodePointSupport = this.multiCodePointSupport.value;
+      const { width, height } = this.rectangle.value;
+
+      // Without overwritten rectangle its size depends on lines, so they can't depend on it
+      if (!overwriteRectangle) {
+        return markup ? splitMarkupLines(text) : text.split("\n");
+      }
+
+      let lines: string[];
+      switch (overflow) {
+        case "char":
+        case "word":
+          lines = markup
+            ? wrapMarkup(text, width, overflow === "word", multiCodePointSupport)
+            : wrapText(text, width, overflow === "word", multiCodePointSupport);
+          break;
+        case "ellipsis":
+          lines = markup
+            ? splitMarkupLines(text).map((line) => ellipsizeMarkup(line, width))
+            : text.split("\n").map((line) => ellipsize(line, width));
+          break;
+        default:
+          lines = markup ? splitMarkupLines(text) : text.split("\n");
+          break;
+      }
+
+      return height === undefined ? lines : lines.slice(0, height);
+    });
 
     new Effect(() => {
       const rectangle = this.rectangle.value;
@@ -107,7 +186,7 @@ export class Label extends Component {
       const valueLines = this.#valueLines.value;
 
       if (!overwriteRectangle) {
-        rectangle.width = valueLines.reduce((p, c) => Math.max(p, textWidth(c)), 0);
+        rectangle.width = valueLines.reduce((p, c) => Math.max(p, this.#lineWidth(c)), 0);
         rectangle.height = valueLines.length;
       }
 
@@ -140,9 +219,11 @@ export class Label extends Component {
         style: this.style,
         zIndex: this.zIndex,
         multiCodePointSupport: this.multiCodePointSupport,
+        markup: this.markup,
         value: new Computed(() => {
-          const value = this.#valueLines.value[offset];
-          return cropToWidth(value, this.rectangle.value.width);
+          // Line might be already gone before its text object gets removed
+          const value = this.#valueLines.value[offset] ?? "";
+          return this.#cropLine(value, this.rectangle.value.width);
         }),
         rectangle: new Computed(() => {
           const valueLines = this.#valueLines.value;
@@ -151,9 +232,9 @@ export class Label extends Component {
           textRectangle.column = column;
           textRectangle.row = row + offset;
 
-          let value = valueLines[offset];
-          value = cropToWidth(value, width);
-          const valueWidth = textWidth(value);
+          let value = valueLines[offset] ?? "";
+          value = this.#cropLine(value, width);
+          const valueWidth = this.#lineWidth(value);
 
           const { vertical, horizontal } = this.align.value;
           switch (horizontal) {
@@ -186,6 +267,14 @@ export class Label extends Component {
     }
   }
 
+  #lineWidth(line: string): number {
+    return this.markup.peek() ? markupWidth(line) : textWidth(line);
+  }
+
+  #cropLine(line: string, width: number): string {
+    return this.markup.peek() ? cropMarkupToWidth(line, width) : cropToWidth(line, width);
+  }
+
   #popUnusedDrawObjects(): void {
     if (!this.#valueLines) throw new Error("#valueLines has to be set");
 
@@ -0,0 +1,259 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Component, ComponentOptions } from "../component.ts";
+
+import { TextObject } from "../canvas/text.ts";
+
+import type { DeepPartial } from "../types.ts";
+import { Theme } from "../theme.ts";
+import { clamp } from "../utils/numbers.ts";
+import { cropToWidth, textWidth } from "../utils/strings.ts";
+import { Computed, Signal } from "../signals/mod.ts";
+import { signalify } from "../utils/signals.ts";
+
+export interface ListTheme extends Theme {
+  selectedItem: Theme;
+  checkedItem: Theme;
+}
+
+export interface ListOptions extends ComponentOptions {
+  theme: DeepPartial<ListTheme, "selectedItem" | "checkedItem">;
+  items: string[] | Signal<string[]>;
+  selectedIndex?: number | Signal<number>;
+  /** Whether multiple items can be checked using Space or by clicking on them, defaults to false */
+  multiSelect?: boolean | Signal<boolean>;
+  checkedIndices?: Set<number> | Signal<Set<number>>;
+}
+
+/**
+ * Component for creating scrollable list of selectable items
+ *
+ * Only items which fit within the rectangle get drawn, so it can handle a lot of them.
+ *
+ *  - Up/Down, Home/End and PageUp/PageDown move selection
+ *  - Typing selects next item starting with typed text
+ *  - Space and clicking toggle whether selected item is checked when `multiSelect` is enabled,
+ *    while text is being typed space becomes part of it instead
+ *
+ * @example
+ * ```ts
+ * new List({
+ *   parent: tui,
+ *   items: ["Apple", "Banana", "Cherry", "Durian", "Elderberry"],
+ *   multiSelect: true,
+ *   theme: {
+ *     base: crayon.bgBlack.white,
+ *     selectedItem: {
+ *       base: crayon.bgBlue.white,
+ *       focused: crayon.bgLightBlue.white,
+ *     },
+ *     checkedItem: { base: crayon.bgBlack.lightGreen },
+ *   },
+ *   rectangle: {
+ *     column: 1,
+ *     row: 1,
+ *     width: 15,
+ *     height: 3,
+ *   },
+ *   zIndex: 0,
+ * });
+ * ```
+ */
+export class List extends Component {
+  declare theme: ListTheme;
+  declare drawnObjects: { items: TextObject[] };
+
+  #typeAhead: { text: string; time: number };
+
+  items: Signal<string[]>;
+  selectedIndex: Signal<number>;
+  multiSelect: Signal<boolean>;
+  checkedIndices: Signal<Set<number>>;
+  offset: Signal<number>;
+
+  constructor(options: ListOptions) {
+    super(options as unknown as ComponentOptions);
+
+    this.items = signalify(options.items, { deepObserve: true });
+    this.selectedIndex = signalify(options.selectedIndex ?? 0);
+    this.multiSelect = signalify(options.multiSelect ?? false);
+    this.checkedIndices = signalify(options.checkedIndices ?? new Set<number>(), { deepObserve: true });
+    this.offset = new Signal(0);
+
+    this.#typeAhead = { text: "", time: 0 };
+
+    this.items.subscribe(() => {
+      this.select(this.selectedIndex.peek());
+    });
+
+    this.selectedIndex.subscribe(() => {
+      this.#scrollToSelectedIndex();
+    });
+
+    this.rectangle.subscribe(() => {
+      const items = this.drawnObjects.items?.length;
+      if (items === undefined || items === this.rectangle.peek().height) return;
+      this.draw();
+    });
+
+    this.on("textInput", ({ text }) => {
+      // Space only continues text which is already being typed
+      if (!this.#typingAhead()) text = text.trimStart();
+      if (text) this.#typeAheadSearch(text);
+    });
+
+    this.on("keyPress", ({ key, ctrl, meta, shift }) => {
+      if (ctrl || meta || shift) return;
+
+      const { height } = this.rectangle.peek();
+      const selectedIndex = this.selectedIndex.peek();
+
+      switch (key) {
+        case "up":
+          this.select(selectedIndex - 1);
+          break;
+        case "down":
+          this.select(selectedIndex + 1);
+          break;
+        case "pageup":
+          this.select(selectedIndex - height);
+          break;
+        case "pagedown":
+          this.select(selectedIndex + height);
+          break;
+        case "home":
+          this.select(0);
+          break;
+        case "end":
+          this.select(this.items.peek().length - 1);
+          break;
+        case "space":
+          if (this.multiSelect.peek() && !this.#typingAhead()) this.toggleChecked(selectedIndex);
+          break;
+      }
+    });
+
+    this.on("mouseEvent", (mouseEvent) => {
+      if (mouseEvent.ctrl || mouseEvent.meta || mouseEvent.shift) return;
+
+      if ("scroll" in mouseEvent) {
+        this.#scrollTo(this.offset.peek() + mouseEvent.scroll);
+      } else if ("button" in mouseEvent && !mouseEvent.drag && !mouseEvent.release) {
+        const index = mouseEvent.y - this.rectangle.peek().row + this.offset.peek();
+        if (index !== clamp(index, 0, this.items.peek().length - 1)) return;
+
+        this.selectedIndex.value = index;
+        if (this.multiSelect.peek()) this.toggleChecked(index);
+      }
+    });
+  }
+
+  /** Select item at {index}, it gets clamped to the range of available items */
+  select(index: number): void {
+    const lastItem = this.items.peek().length - 1;
+    this.selectedIndex.value = clamp(index, 0, Math.max(lastItem, 0));
+    // Selected index might not have changed while items did
+    this.#scrollToSelectedIndex();
+  }
+
+  /** Check or uncheck item at {index} */
+  toggleChecked(index: number): void {
+    const checkedIndices = this.checkedIndices.peek();
+    if (checkedIndices.has(index)) checkedIndices.delete(index);
+    else checkedIndices.add(index);
+  }
+
+  draw(): void {
+    super.draw();
+
+    const { canvas } = this.tui;
+    const { drawnObjects } = this;
+    drawnObjects.items = [];
+
+    for (let i = 0; i < this.rectangle.peek().height; ++i) {
+      const itemRectangle = { column: 0, row: 0 };
+      const item = new TextObject({
+        canvas,
+        view: this.view,
+        zIndex: this.zIndex,
+        style: new Computed(() => {
+          const index = i + this.offset.value;
+          const state = this.state.value;
+          if (index === this.selectedIndex.value) return this.theme.selectedItem[state];
+          if (this.multiSelect.value && this.checkedIndices.value.has(index)) return this.theme.checkedItem[state];
+          return this.theme[state];
+        }),
+        value: new Computed(() => {
+          const { width } = this.rectangle.value;
+          const item = cropToWidth(this.items.value[i + this.offset.value] ?? "", width);
+          return item + " ".repeat(Math.max(width - textWidth(item), 0));
+        }),
+        rectangle: new Computed(() => {
+          const { column, row } = this.rectangle.value;
+          itemRectangle.column = column;
+          itemRectangle.row = row + i;
+          return itemRectangle;
+        }),
+      });
+
+      drawnObjects.items.push(item);
+      item.draw();
+    }
+  }
+
+  interact(method: "mouse" | "keyboard"): void {
+    const interactionInterval = Date.now() - this.lastInteraction.time;
+
+    this.state.value = this.state.peek() === "focused" && (interactionInterval < 500 || method === "keyboard")
+      ? "active"
+      : "focused";
+
+    super.interact(method);
+  }
+
+  /**
+   * Select next item starting with typed text, case insensitive
+   *
+   * Text typed within a second of each other gets joined together.
+   */
+  #typeAheadSearch(typed: string): void {
+    const typeAhead = this.#typeAhead;
+    if (!this.#typingAhead()) typeAhead.text = "";
+
+    // Currently selected item can still match when more text gets typed
+    const start = this.selectedIndex.peek() + (typeAhead.text ? 0 : 1);
+
+    typeAhead.text += typed.toLowerCase();
+    typeAhead.time = Date.now();
+
+    const items = this.items.peek();
+    const { text } = typeAhead;
+
+    for (let i = 0; i < items.length; ++i) {
+      const index = (start + i) % items.length;
+      if (items[index].toLowerCase().startsWith(text)) {
+        this.select(index);
+        return;
+      }
+    }
+  }
+
+  /** Whether text typed for type-ahead search hasn't expired yet */
+  #typingAhead(): boolean {
+    return !!this.#typeAhead.text && Date.now() - this.#typeAhead.time <= 1000;
+  }
+
+  #scrollTo(offset: number): void {
+    const maxOffset = Math.max(this.items.peek().length - this.rectangle.peek().height, 0);
+    this.offset.value = clamp(offset, 0, maxOffset);
+  }
+
+  #scrollToSelectedIndex(): void {
+    const index = this.selectedIndex.peek();
+    const { height } = this.rectangle.peek();
+    const offset = this.offset.peek();
+
+    if (index < offset) this.#scrollTo(index);
+    else if (index >= offset + height) this.#scrollTo(index - height + 1);
+    else this.#scrollTo(offset);
+  }
+}
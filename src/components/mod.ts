@@ -3,11 +3,16 @@ export * from "./box.ts";
 export * from "./button.ts";
 export * from "./checkbox.ts";
 export * from "./combobox.ts";
+export * from "./dialog.ts";
 export * from "./frame.ts";
 export * from "./input.ts";
 export * from "./label.ts";
+export * from "./list.ts";
 export * from "./progressbar.ts";
+export * from "./radio_group.ts";
+export * from "./scroll_view.ts";
 export * from "./slider.ts";
 export * from "./table.ts";
 export * from "./text.ts";
 export * from "./textbox.ts";
+export * from "./tree.ts";
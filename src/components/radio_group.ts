@@ -0,0 +1,243 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Box } from "./box.ts";
+import { Theme } from "../theme.ts";
+import { ComponentOptions } from "../component.ts";
+
+import { BoxObject } from "../canvas/box.ts";
+import { TextObject, TextRectangle } from "../canvas/text.ts";
+
+import type { DeepPartial } from "../types.ts";
+import { Computed, Signal } from "../signals/mod.ts";
+import { signalify } from "../utils/signals.ts";
+import { cropToWidth, textWidth } from "../utils/strings.ts";
+
+export const RadioUnicodeCharacters = {
+  round: {
+    selected: "(•)",
+    unselected: "( )",
+  },
+  square: {
+    selected: "[•]",
+    unselected: "[ ]",
+  },
+};
+
+export type RadioUnicodeCharactersType = {
+  [key in keyof typeof RadioUnicodeCharacters["round"]]: string;
+};
+
+export type RadioGroupOrientation = "vertical" | "horizontal";
+
+export interface RadioGroupTheme extends Theme {
+  selectedItem: Theme;
+}
+
+export interface RadioGroupOptions extends ComponentOptions {
+  items: string[] | Signal<string[]>;
+  /** Index of selected item, `undefined` when none of them is selected */
+  selected?: number | undefined | Signal<number | undefined>;
+  /** Whether items are laid out in a column or a row, defaults to "vertical" */
+  orientation?: RadioGroupOrientation | Signal<RadioGroupOrientation>;
+  /** Marks shown before items, defaults to "round" */
+  charMap?: keyof typeof RadioUnicodeCharacters | RadioUnicodeCharactersType;
+  theme: DeepPartial<RadioGroupTheme>;
+}
+
+/** Amount of columns separating items when they're laid out horizontally */
+const HORIZONTAL_GAP = 2;
+
+/**
+ * Component for creating group of items out of which only one can be selected
+ *
+ *  - Arrow keys select previous/next item, wrapping around
+ *  - Clicking on item selects it
+ *
+ * @example
+ * ```ts
+ * new RadioGroup({
+ *  parent: tui,
+ *  items: ["Small", "Medium", "Large"],
+ *  selected: 1,
+ *  orientation: "vertical",
+ *  theme: {
+ *    base: crayon.bgGreen,
+ *    focused: crayon.bgLightGreen,
+ *    active: crayon.bgYellow,
+ *    selectedItem: { base: crayon.bgGreen.bold },
+ *  },
+ *  rectangle: {
+ *    column: 1,
+ *    row: 1,
+ *    height: 3,
+ *    width: 12,
+ *  },
+ *  zIndex: 0,
+ * });
+ * ```
+ *
+ * Marks can be changed using `charMap` property.
+ * @example
+ * ```ts
+ * new RadioGroup({
+ *  ...,
+ *  charMap: { selected: "◉", unselected: "○" },
+ * });
+ * ```
+ */
+export class RadioGroup extends Box {
+  declare theme: RadioGroupTheme;
+  declare drawnObjects: { box: BoxObject; items: TextObject[] };
+
+  items: Signal<string[]>;
+  selected: Signal<number | undefined>;
+  orientation: Signal<RadioGroupOrientation>;
+  charMap: Signal<RadioUnicodeCharactersType>;
+
+  constructor(options: RadioGroupOptions) {
+    super(options);
+
+    this.theme.selectedItem ??= this.theme;
+
+    this.items = signalify(options.items, { deepObserve: true });
+    this.selected = signalify(options.selected);
+    this.orientation = signalify(options.orientation ?? "vertical");
+    this.charMap = signalify(
+      typeof options.charMap === "object" ? options.charMap : RadioUnicodeCharacters[options.charMap ?? "round"],
+    );
+
+    this.items.subscribe((items) => {
+      const selected = this.selected.peek();
+      if (selected !== undefined && selected >= items.length) this.selected.value = undefined;
+
+      if (this.drawnObjects.items && this.drawnObjects.items.length !== items.length) this.draw();
+    });
+
+    this.on("keyPress", ({ key, ctrl, meta, shift }) => {
+      if (ctrl || meta || shift) return;
+
+      switch (key) {
+        case "up":
+        case "left":
+          this.#selectNext(-1);
+          break;
+        case "down":
+        case "right":
+          this.#selectNext(1);
+          break;
+      }
+    });
+
+    this.on("mouseEvent", (mouseEvent) => {
+      if (mouseEvent.ctrl || mouseEvent.meta || mouseEvent.shift) return;
+      if (!("button" in mouseEvent) || mouseEvent.drag || mouseEvent.release) return;
+
+      const index = this.#itemAt(mouseEvent.x, mouseEvent.y);
+      if (index !== undefined) this.selected.value = index;
+    });
+  }
+
+  draw(): void {
+    super.draw();
+
+    const { canvas } = this.tui;
+    const { drawnObjects } = this;
+    drawnObjects.items = [];
+
+    for (let i = 0; i < this.items.peek().length; ++i) {
+      const itemRectangle: TextRectangle = { column: 0, row: 0 };
+      const item = new TextObject({
+        canvas,
+        view: this.view,
+        zIndex: this.zIndex,
+        style: new Computed(() => {
+          const state = this.state.value;
+          const selected = this.selected.value;
+          return (i === selected ? this.theme.selectedItem : this.theme)[state];
+        }),
+        value: new Computed(() => {
+          const { width, height } = this.rectangle.value;
+          const orientation = this.orientation.value;
+          const selected = this.selected.value;
+          const { selected: selectedMark, unselected } = this.charMap.value;
+          // Item might be already gone before its text object gets removed
+          const label = this.items.value[i] ?? "";
+
+          if (orientation === "vertical") {
+            return i < height ? cropToWidth(`${i === selected ? selectedMark : unselected} ${label}`, width) : "";
+          }
+
+          const offset = this.#itemOffset(i);
+          return cropToWidth(`${i === selected ? selectedMark : unselected} ${label}`, Math.max(width - offset, 0));
+        }),
+        rectangle: new Computed(() => {
+          const { column, row } = this.rectangle.value;
+          const orientation = this.orientation.value;
+          // associate computed with this.items and this.charMap, offsets depend on them
+          this.items.value;
+          this.charMap.value;
+
+          itemRectangle.column = column + (orientation === "horizontal" ? this.#itemOffset(i) : 0);
+          itemRectangle.row = row + (orientation === "vertical" ? i : 0);
+          return itemRectangle;
+        }),
+      });
+
+      drawnObjects.items.push(item);
+      item.draw();
+    }
+  }
+
+  interact(method: "mouse" | "keyboard"): void {
+    const interactionInterval = Date.now() - this.lastInteraction.time;
+
+    this.state.value = this.state.peek() === "focused" && (interactionInterval < 500 || method === "keyboard")
+      ? "active"
+      : "focused";
+
+    super.interact(method);
+  }
+
+  /** Returns width of item at {index} along with its mark */
+  #itemWidth(index: number): number {
+    const { selected, unselected } = this.charMap.peek();
+    const markWidth = Math.max(textWidth(selected), textWidth(unselected));
+    return markWidth + 1 + textWidth(this.items.peek()[index] ?? "");
+  }
+
+  /** Returns amount of columns item at {index} is offset by when items are laid out horizontally */
+  #itemOffset(index: number): number {
+    let offset = 0;
+    for (let i = 0; i < index; ++i) {
+      offset += this.#itemWidth(i) + HORIZONTAL_GAP;
+    }
+    return offset;
+  }
+
+  /** Returns index of item at given position or `undefined` if there's none */
+  #itemAt(x: number, y: number): number | undefined {
+    const { column, row } = this.rectangle.peek();
+    const items = this.items.peek();
+
+    if (this.orientation.peek() === "vertical") {
+      const index = y - row;
+      return index >= 0 && index < items.length ? index : undefined;
+    }
+
+    if (y !== row) return undefined;
+    for (let i = 0; i < items.length; ++i) {
+      const offset = column + this.#itemOffset(i);
+      if (x >= offset && x < offset + this.#itemWidth(i)) return i;
+    }
+    return undefined;
+  }
+
+  #selectNext(direction: 1 | -1): void {
+    const { length } = this.items.peek();
+    if (!length) return;
+
+    const selected = this.selected.peek();
+    this.selected.value = selected === undefined
+      ? (direction === 1 ? 0 : length - 1)
+      : (selected + direction + length) % length;
+  }
+}
@@ -0,0 +1,281 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Component, ComponentOptions } from "../component.ts";
+import type { Tui } from "../tui.ts";
+import { Box } from "./box.ts";
+
+import { BoxObject } from "../canvas/box.ts";
+import { DrawObject } from "../canvas/draw_object.ts";
+
+import type { DeepPartial } from "../types.ts";
+import { Theme } from "../theme.ts";
+import { View } from "../view.ts";
+import { clamp, fitsInRectangle } from "../utils/numbers.ts";
+import { getComponentAt, isDescendantOf } from "../utils/component.ts";
+import { Computed, Signal } from "../signals/mod.ts";
+import { signalify } from "../utils/signals.ts";
+
+export interface ScrollViewTheme extends Theme {
+  scrollbar: Theme;
+  thumb: Theme;
+}
+
+export interface ScrollViewOptions extends ComponentOptions {
+  /** When `scrollbar` or `thumb` themes aren't specified, ScrollView's theme gets used */
+  theme: DeepPartial<ScrollViewTheme>;
+  /** Whether to draw vertical scrollbar in the rightmost column, defaults to false */
+  scrollbar?: boolean | Signal<boolean>;
+}
+
+/** Whether {component} handles scrolling by itself, components get scroll events while they're focused */
+function scrollsByItself(component: Component): boolean {
+  const state = component.state.peek();
+  return (state === "focused" || state === "active") && !!component.listeners.mouseScroll?.length;
+}
+
+/**
+ * Component for creating scrollable containers
+ *
+ * Children which don't have their own `view` get placed in ScrollView's `content` view,
+ * their rectangles are relative to ScrollView's top left corner.
+ *
+ * It scrolls using mouse wheel (hold shift to scroll horizontally) and PageUp/PageDown
+ * while it or any of its descendants is focused.
+ *
+ * @example
+ * ```ts
+ * const scrollView = new ScrollView({
+ *  parent: tui,
+ *  scrollbar: true,
+ *  theme: {
+ *    base: crayon.bgBlack,
+ *    scrollbar: { base: crayon.bgLightBlack },
+ *    thumb: { base: crayon.bgWhite },
+ *  },
+ *  rectangle: {
+ *    column: 1,
+ *    row: 1,
+ *    height: 5,
+ *    width: 20,
+ *  },
+ *  zIndex: 0,
+ * });
+ *
+ * new Label({
+ *  parent: scrollView,
+ *  text: "Long\ntext\nthat\ndoesn't\nfit",
+ *  theme: { base: crayon.bgBlack.white },
+ *  rectangle: { column: 0, row: 0 },
+ *  zIndex: 1,
+ * });
+ * ```
+ */
+export class ScrollView extends Box {
+  declare theme: ScrollViewTheme;
+  declare drawnObjects: { box: BoxObject; scrollbar?: BoxObject; thumb?: BoxObject };
+
+  #offTui: (() => void)[];
+  /** Whether children changed since `content.maxOffset` got calculated */
+  #maxOffsetOutdated: boolean;
+
+  content: View;
+  scrollbar: Signal<boolean>;
+
+  constructor(options: ScrollViewOptions) {
+    const { theme } = options;
+    theme.scrollbar ??= theme;
+    theme.thumb ??= theme;
+
+    super(options as ComponentOptions);
+
+    this.scrollbar = signalify(options.scrollbar ?? false);
+
+    const contentRectangle = { column: 0, row: 0, width: 0, height: 0 };
+    this.content = new View({
+      rectangle: new Computed(() => {
+        const { column, row, width, height } = this.rectangle.value;
+        contentRectangle.column = column;
+        contentRectangle.row = row;
+        contentRectangle.width = Math.max(width - (this.scrollbar.value ? 1 : 0), 0);
+        contentRectangle.height = height;
+        return contentRectangle;
+      }),
+    });
+
+    this.#maxOffsetOutdated = true;
+    this.content.rectangle.subscribe(() => {
+      this.#maxOffsetOutdated = true;
+    });
+
+    this.scrollbar.subscribe(() => {
+      if (this.drawnObjects.box && this.visible.peek()) this.draw();
+    });
+
+    const { tui } = this;
+    this.#offTui = [
+      tui.canvas.on("render", () => {
+        if (this.#maxOffsetOutdated) this.updateMaxOffset();
+      }),
+      tui.on("mouseScroll", ({ x, y, scroll, shift }) => {
+        if (!this.visible.peek() || !fitsInRectangle(x, y, this.rectangle.peek())) return;
+
+        // Only the innermost ScrollView under the pointer scrolls, unless component under it scrolls by itself
+        let target: Component | Tui | undefined = getComponentAt(tui, x, y, (component) => component.visible.peek());
+        while (target !== this) {
+          if (!target || !("tui" in target) || target instanceof ScrollView || scrollsByItself(target)) return;
+          target = target.subComponentOf ?? target.parent;
+        }
+
+        if (shift) this.scrollBy(scroll, 0);
+        else this.scrollBy(0, scroll);
+      }),
+      tui.on("keyPress", ({ key, ctrl, meta, shift, release }) => {
+        if (ctrl || meta || shift || release || (key !== "pageup" && key !== "pagedown")) return;
+        const focused = tui.focusManager.focused.peek();
+        if (!focused || !isDescendantOf(focused, this)) return;
+
+        const { height } = this.content.rectangle.peek();
+        this.scrollBy(0, key === "pageup" ? -height : height);
+      }),
+    ];
+  }
+
+  /** Scroll content by given amount of {columns} and {rows}, offset gets clamped between 0 and `content.maxOffset` */
+  scrollBy(columns: number, rows: number): void {
+    this.updateMaxOffset();
+
+    const offset = this.content.offset.peek();
+    const maxOffset = this.content.maxOffset.peek();
+
+    const offsetColumns = clamp(offset.columns + columns, 0, maxOffset.columns);
+    const offsetRows = clamp(offset.rows + rows, 0, maxOffset.rows);
+
+    if (offset.columns !== offsetColumns) this.content.offset.value.columns = offsetColumns;
+    if (offset.rows !== offsetRows) this.content.offset.value.rows = offsetRows;
+  }
+
+  viewForChild(child: Component): View {
+    const markOutdated = () => {
+      this.#maxOffsetOutdated = true;
+    };
+
+    markOutdated();
+    child.rectangle.subscribe(markOutdated);
+    child.visible.subscribe(markOutdated);
+    child.on("destroy", markOutdated);
+
+    return this.content;
+  }
+
+  /**
+   * Calculate `content.maxOffset` from rectangles of objects drawn by children within `content`
+   *
+   * It gets called on render after children or their rectangles change,
+   * so there's no need to call it manually unless you need its value immediately.
+   */
+  updateMaxOffset(): void {
+    this.#maxOffsetOutdated = false;
+    const { content } = this;
+
+    let contentWidth = 0;
+    let contentHeight = 0;
+
+    const measure = (object: DrawObject) => {
+      if (object.view.peek() !== content) return;
+
+      // Drawn objects within view have view offset already applied to their rectangles
+      const { column, row, width, height } = object.rectangle.peek();
+      const { viewOffset } = object;
+      contentWidth = Math.max(contentWidth, column - viewOffset.columns + width);
+      contentHeight = Math.max(contentHeight, row - viewOffset.rows + height);
+    };
+
+    const measureComponent = (component: Component) => {
+      for (const drawnObject of Object.values(component.drawnObjects)) {
+        if (Array.isArray(drawnObject)) drawnObject.forEach(measure);
+        else measure(drawnObject);
+      }
+
+      for (const child of component.children) {
+        measureComponent(child);
+      }
+    };
+
+    for (const child of this.children) {
+      measureComponent(child);
+    }
+
+    const { width, height } = content.rectangle.peek();
+    const maxOffset = content.maxOffset.peek();
+
+    const columns = Math.max(contentWidth - width, 0);
+    const rows = Math.max(contentHeight - height, 0);
+
+    if (maxOffset.columns !== columns) content.maxOffset.value.columns = columns;
+    if (maxOffset.rows !== rows) content.maxOffset.value.rows = rows;
+
+    // Content might've shrunk
+    const offset = content.offset.peek();
+    if (offset.columns > columns) content.offset.value.columns = columns;
+    if (offset.rows > rows) content.offset.value.rows = rows;
+  }
+
+  draw(): void {
+    super.draw();
+
+    if (!this.scrollbar.peek()) return;
+
+    const { canvas } = this.tui;
+
+    const scrollbarRectangle = { column: 0, row: 0, width: 1, height: 0 };
+    const scrollbar = new BoxObject({
+      canvas,
+      view: this.view,
+      zIndex: this.zIndex,
+      style: new Computed(() => this.theme.scrollbar[this.state.value]),
+      rectangle: new Computed(() => {
+        const { column, row, width, height } = this.rectangle.value;
+        scrollbarRectangle.column = column + width - 1;
+        scrollbarRectangle.row = row;
+        scrollbarRectangle.height = height;
+        return scrollbarRectangle;
+      }),
+    });
+
+    const thumbRectangle = { column: 0, row: 0, width: 1, height: 0 };
+    const thumb = new BoxObject({
+      canvas,
+      view: this.view,
+      zIndex: this.zIndex,
+      style: new Computed(() => this.theme.thumb[this.state.value]),
+      rectangle: new Computed(() => {
+        const { column, row, width, height } = this.rectangle.value;
+        const offset = this.content.offset.value.rows;
+        const maxOffset = this.content.maxOffset.value.rows;
+
+        const thumbSize = clamp(Math.round(height * height / (height + maxOffset)), 1, height);
+
+        thumbRectangle.column = column + width - 1;
+        thumbRectangle.row = row + (maxOffset && Math.round((height - thumbSize) * offset / maxOffset));
+        thumbRectangle.height = thumbSize;
+        return thumbRectangle;
+      }),
+    });
+
+    const { drawnObjects } = this;
+    drawnObjects.scrollbar = scrollbar;
+    drawnObjects.thumb = thumb;
+
+    scrollbar.draw();
+    thumb.draw();
+  }
+
+  interact(method: "mouse" | "keyboard"): void {
+    super.interact(method);
+    this.state.value = "focused";
+  }
+
+  destroy(): void {
+    for (const off of this.#offTui) off();
+    super.destroy();
+  }
+}
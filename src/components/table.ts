@@ -6,7 +6,7 @@ import { TextObject } from "../canvas/text.ts";
 
 import type { DeepPartial, Rectangle } from "../types.ts";
 import { Theme } from "../theme.ts";
-import { textWidth } from "../utils/strings.ts";
+import { cropToWidth, textWidth } from "../utils/strings.ts";
 import { clamp } from "../utils/numbers.ts";
 import { Computed, Effect, Signal } from "../signals/mod.ts";
 import { signalify } from "../utils/signals.ts";
@@ -21,6 +21,8 @@ export const TableUnicodeCharacters = {
     rightHorizontal: "┤",
     horizontal: "─",
     vertical: "│",
+    sortAscending: "▲",
+    sortDescending: "▼",
   },
   rounded: {
     topLeft: "╭",
@@ -31,6 +33,8 @@ export const TableUnicodeCharacters = {
     rightHorizontal: "┤",
     horizontal: "─",
     vertical: "│",
+    sortAscending: "▲",
+    sortDescending: "▼",
   },
 };
 
@@ -42,18 +46,48 @@ export interface TableTheme extends Theme {
   frame: Theme;
   header: Theme;
   selectedRow: Theme;
+  selectedCell: Theme;
 }
 
 export type TableHeader<WidthDefined extends boolean> = {
   title: string;
 } & (WidthDefined extends true ? { width: number } : { width?: number });
 
+/** Describes by which column and in which direction Table's rows are sorted */
+export interface TableSort {
+  column: number;
+  direction: "ascending" | "descending";
+}
+
+/**
+ * Interface for providing Table's rows on demand, instead of keeping all of them in memory
+ *
+ * Only rows which are currently visible get requested.
+ * Rows returned asynchronously stay empty until they resolve.
+ */
+export interface TableDataSource {
+  rowCount: number;
+  getRow(index: number): string[] | Promise<string[]>;
+  /**
+   * Gets called when Table's `sort` or `filter` changes, Table refreshes after it finishes.
+   * Data source is responsible for sorting and filtering its rows, without it they stay as they are.
+   * When it fails Table doesn't refresh, results of queries outdated by newer ones get ignored.
+   */
+  query?(sort: TableSort | undefined, filter: string): void | Promise<void>;
+}
+
 export interface TableOptions extends Omit<ComponentOptions, "rectangle"> {
+  /** When `selectedCell` theme isn't specified, Table's theme gets used */
   theme: DeepPartial<TableTheme, "frame" | "header" | "selectedRow">;
   headers: TableHeader<false>[];
   rectangle: Omit<Rectangle, "width">;
-  data: string[][];
+  data: string[][] | TableDataSource | Signal<string[][] | TableDataSource>;
   charMap: keyof typeof TableUnicodeCharacters | TableUnicodeCharactersType;
+  sort?: TableSort | undefined | Signal<TableSort | undefined>;
+  /** Rows which don't have any cell containing filter (case insensitive) get hidden */
+  filter?: string | Signal<string>;
+  /** Whether to highlight selected cell which can be moved across columns using Left/Right, defaults to false */
+  cellCursor?: boolean | Signal<boolean>;
 }
 
 /**
@@ -63,6 +97,17 @@ export interface TableOptions extends Omit<ComponentOptions, "rectangle"> {
  *
  * You can specify each header's width explicitly or leave it out to let Table to figure it out.
  *
+ * Data can also be given as a `TableDataSource`, then only visible rows are requested
+ * and columns widen to fit rows which have been displayed so far.
+ * Call `refresh()` after source's rows or `rowCount` change.
+ *
+ *  - Clicking on a header or pressing its number (1-9) cycles sorting by its column between ascending, descending and none
+ *  - Dragging separator after a header resizes its column
+ *  - Shift+Up/Down (and other movement keys), Shift+click and dragging select range of rows
+ *  - Ctrl+click toggles whether row is selected
+ *
+ * Row under mouse pointer gets styled using `hovered` theme while table isn't focused (see `handleMouseControls`).
+ *
  * @example
  * ```ts
  * new Table({
@@ -114,98 +159,319 @@ export class Table extends Component {
 
     header: TextObject;
     data: TextObject[];
+    cell?: TextObject;
   };
 
-  data: Signal<string[][]>;
+  #rowCache: Map<number, string[] | Promise<string[]>>;
+  #cachedData?: string[][] | TableDataSource;
+  #queriedRows?: string[][];
+  #fixedWidths: Signal<(number | undefined)[]>;
+  #resizedColumn?: number;
+  #selectionAnchor: number;
+  #keepSelection: boolean;
+  /** Identifies the latest `query()` call, so responses to outdated ones can be ignored */
+  #queryId: number;
+  #cell?: TextObject;
+
+  data: Signal<string[][] | TableDataSource>;
+  rowCount: Signal<number>;
+  /** Rows which are currently displayed, starting at `offsetRow` */
+  visibleRows: Signal<(string[] | undefined)[]>;
   headers: Signal<TableHeader<true>[]>;
   charMap: Signal<TableUnicodeCharactersType>;
+  /** Row at which cursor is */
   selectedRow: Signal<number>;
+  /** Every selected row, its value has to be replaced to update selection */
+  selectedRows: Signal<Set<number>>;
+  /** Index of data row under mouse pointer, `undefined` when pointer isn't over any of them */
+  hoveredRow: Signal<number | undefined>;
+  selectedColumn: Signal<number>;
+  cellCursor: Signal<boolean>;
   offsetRow: Signal<number>;
+  sort: Signal<TableSort | undefined>;
+  filter: Signal<string>;
 
   constructor(options: TableOptions) {
+    options.theme.selectedCell ??= options.theme;
+
     super(options as unknown as ComponentOptions);
 
-    this.data = signalify(options.data, { deepObserve: true });
+    // Data sources can't be observed deeply, because their methods might not be own properties
+    this.data = signalify(options.data, { deepObserve: Array.isArray(options.data) });
     this.charMap = signalify(
       typeof options.charMap === "string" ? TableUnicodeCharacters[options.charMap] : options.charMap,
       { deepObserve: true },
     );
     this.headers = signalify(options.headers as TableHeader<true>[], { deepObserve: true });
     this.selectedRow = new Signal(0);
+    this.selectedRows = new Signal(new Set([0]));
+    this.hoveredRow = new Signal<number | undefined>(undefined);
+    this.selectedColumn = new Signal(0);
+    this.cellCursor = signalify(options.cellCursor ?? false);
     this.offsetRow = new Signal(0);
+    this.rowCount = new Signal(0);
+    this.visibleRows = new Signal<(string[] | undefined)[]>([]);
+    this.sort = signalify(options.sort);
+    this.filter = signalify(options.filter ?? "");
+
+    this.#fixedWidths = new Signal(options.headers.map((header) => header.width));
+    this.#selectionAnchor = 0;
+    this.#keepSelection = false;
+    this.#queryId = 0;
+    this.#rowCache = new Map();
+    this.refresh();
 
     new Effect(() => {
       const headers = this.headers.value;
+      const data = this.data.value;
+      const visibleRows = this.visibleRows.value;
+      const fixedWidths = this.#fixedWidths.value;
+      const sort = this.sort.value;
+
       let width = 1;
+      let widthsChanged = false;
       for (let i = 0; i < headers.length; ++i) {
         const header = headers[i];
-        header.width = Math.max(
-          textWidth(header.title),
-          this.data.value.reduce((a, b) => Math.max(a, textWidth(b[i])), 0),
-        );
+        const previousWidth = header.width;
+
+        if (fixedWidths[i] !== undefined) {
+          header.width = fixedWidths[i]!;
+        } else if (Array.isArray(data)) {
+          header.width = Math.max(
+            textWidth(header.title),
+            data.reduce((a, b) => Math.max(a, textWidth(b[i])), 0),
+          );
+        } else {
+          // Whole data isn't available, so columns only ever widen to avoid jumping back and forth while scrolling
+          header.width = Math.max(
+            header.width ?? 0,
+            textWidth(header.title),
+            visibleRows.reduce((a, b) => Math.max(a, b ? textWidth(b[i]) : 0), 0),
+          );
+        }
+
+        // Leave space for sort indicator, unless column has been resized
+        if (sort?.column === i && fixedWidths[i] === undefined) {
+          header.width = Math.max(header.width, textWidth(header.title) + 2);
+        }
+
+        widthsChanged ||= header.width !== previousWidth;
         width += header.width + 1;
       }
       this.rectangle.value.width = width;
+
+      // Widths get changed in place, so things that depend on them have to be notified
+      if (widthsChanged) this.headers.value = [...headers];
     });
 
-    this.data.subscribe((data) => {
-      const dataDrawObjects = this.drawnObjects.data?.length;
-      if (!dataDrawObjects) return;
-      if (data.length > dataDrawObjects) {
-        this.#fillDataDrawObjects();
-      } else if (data.length < dataDrawObjects) {
-        this.#popUnusedDataDrawObjects();
-      }
+    this.data.subscribe(() => {
+      this.refresh();
+    });
+
+    this.sort.subscribe(() => {
+      this.#query();
+    });
+
+    this.selectedRow.subscribe((selectedRow) => {
+      if (this.#keepSelection) return;
+      this.#selectionAnchor = selectedRow;
+      this.selectedRows.value = new Set([selectedRow]);
+    });
+
+    for (const signal of [this.cellCursor, this.selectedRow, this.offsetRow, this.rowCount]) {
+      signal.subscribe(() => this.#updateCell());
+    }
+
+    this.filter.subscribe(() => {
+      this.#query();
+    });
+
+    this.offsetRow.subscribe(() => {
+      this.#updateVisibleRows();
+    });
+
+    this.rectangle.subscribe(() => {
+      if (this.visibleRows.peek().length !== this.#visibleRowCount()) this.#updateVisibleRows();
     });
 
     this.on("keyPress", ({ key, ctrl, meta, shift }) => {
-      if (ctrl || meta || shift) return;
+      if (ctrl || meta) return;
 
       const { height } = this.rectangle.peek();
-      const lastDataRow = this.data.peek().length - 1;
+      const lastDataRow = this.rowCount.peek() - 1;
 
       const { selectedRow, offsetRow } = this;
+      let row = selectedRow.peek();
+
+      const column = Number(key) - 1;
+      if (!shift && column >= 0 && column < this.headers.peek().length) {
+        this.cycleSort(column);
+        return;
+      }
 
       switch (key) {
         case "up":
-          --selectedRow.value;
+          --row;
           break;
         case "down":
-          ++selectedRow.value;
+          ++row;
           break;
         case "pageup":
-          selectedRow.value -= ~~(lastDataRow / 100);
+          row -= ~~(lastDataRow / 100);
           break;
         case "pagedown":
-          selectedRow.value += ~~(lastDataRow / 100);
+          row += ~~(lastDataRow / 100);
           break;
         case "home":
-          selectedRow.value = 0;
+          row = 0;
           break;
         case "end":
-          selectedRow.value = lastDataRow;
+          row = lastDataRow;
           break;
+        case "left":
+        case "right":
+          if (shift || !this.cellCursor.peek()) return;
+          this.selectedColumn.value = clamp(
+            this.selectedColumn.peek() + (key === "left" ? -1 : 1),
+            0,
+            this.headers.peek().length - 1,
+          );
+          return;
+        default:
+          return;
       }
 
-      selectedRow.value = clamp(selectedRow.peek(), 0, lastDataRow);
+      row = clamp(row, 0, lastDataRow);
+      if (shift) this.selectRange(row);
+      else selectedRow.value = row;
       offsetRow.value = clamp(selectedRow.peek() - ~~((height - 4) / 2), 0, lastDataRow - height + 5);
     });
 
     this.on("mouseEvent", (mouseEvent) => {
-      if (mouseEvent.ctrl || mouseEvent.meta || mouseEvent.shift) return;
-      const { y } = mouseEvent;
+      if (mouseEvent.meta) return;
+      const { x, y, ctrl, shift } = mouseEvent;
       const { row, height } = this.rectangle.peek();
 
-      const lastDataRow = this.data.peek().length - 1;
+      const lastDataRow = this.rowCount.peek() - 1;
 
       if ("scroll" in mouseEvent) {
+        if (ctrl || shift) return;
         this.offsetRow.value = clamp(this.offsetRow.peek() + mouseEvent.scroll, 0, lastDataRow - height + 5);
       } else if ("button" in mouseEvent && y >= row + 3 && y <= row + height - 2) {
+        if (mouseEvent.release || (ctrl && shift)) return;
+
         const dataRow = y - row + this.offsetRow.peek() - 3;
         if (dataRow !== clamp(dataRow, 0, lastDataRow)) return;
-        this.selectedRow.value = dataRow;
+
+        const headers = this.headers.peek();
+        for (let i = headers.length - 1; i >= 0; --i) {
+          if (x < this.#columnStart(i)) continue;
+          this.selectedColumn.value = i;
+          break;
+        }
+
+        if (ctrl) {
+          if (!mouseEvent.drag) this.toggleRow(dataRow);
+        } else if (shift || mouseEvent.drag) {
+          this.selectRange(dataRow);
+        } else {
+          this.selectedRow.value = dataRow;
+        }
       }
     });
+
+    this.on("mouseMove", ({ y }) => {
+      const { row, height } = this.rectangle.peek();
+      const dataRow = y - row + this.offsetRow.peek() - 3;
+
+      const overRow = y >= row + 3 && y <= row + height - 2 && dataRow < this.rowCount.peek();
+      this.hoveredRow.value = overRow ? dataRow : undefined;
+    });
+
+    this.on("mouseLeave", () => {
+      this.hoveredRow.value = undefined;
+    });
+
+    this.on("mousePress", ({ x, y, drag, release, ctrl, meta, shift }) => {
+      const resizedColumn = this.#resizedColumn;
+      if (resizedColumn !== undefined) {
+        if (release) {
+          this.#resizedColumn = undefined;
+        } else {
+          this.resizeColumn(resizedColumn, x - this.#columnStart(resizedColumn));
+        }
+        return;
+      }
+
+      if (drag || release || ctrl || meta || shift) return;
+
+      const { row } = this.rectangle.peek();
+      if (y !== row + 1) return;
+
+      const headers = this.headers.peek();
+      for (let i = 0; i < headers.length; ++i) {
+        const start = this.#columnStart(i);
+        const end = start + headers[i].width;
+
+        if (x === end) {
+          this.#resizedColumn = i;
+          return;
+        } else if (x >= start && x < end) {
+          this.cycleSort(i);
+          return;
+        }
+      }
+    });
+  }
+
+  /** Select rows between the one where selection started and {row}, cursor gets moved to {row} */
+  selectRange(row: number): void {
+    const anchor = this.#selectionAnchor;
+
+    const selectedRows = new Set<number>();
+    for (let i = Math.min(anchor, row); i <= Math.max(anchor, row); ++i) {
+      selectedRows.add(i);
+    }
+
+    this.#keepSelection = true;
+    this.selectedRow.value = row;
+    this.#keepSelection = false;
+
+    this.selectedRows.value = selectedRows;
+  }
+
+  /** Add {row} to selection or remove it from it, cursor gets moved to {row} */
+  toggleRow(row: number): void {
+    const selectedRows = new Set(this.selectedRows.peek());
+    if (selectedRows.has(row)) selectedRows.delete(row);
+    else selectedRows.add(row);
+
+    this.#keepSelection = true;
+    this.selectedRow.value = row;
+    this.#keepSelection = false;
+
+    this.#selectionAnchor = row;
+    this.selectedRows.value = selectedRows;
+  }
+
+  /** Cycle sorting by {column} between ascending, descending and none */
+  cycleSort(column: number): void {
+    const sort = this.sort.peek();
+
+    if (sort?.column !== column) {
+      this.sort.value = { column, direction: "ascending" };
+    } else if (sort.direction === "ascending") {
+      this.sort.value = { column, direction: "descending" };
+    } else {
+      this.sort.value = undefined;
+    }
+  }
+
+  /** Set {column}'s width to {width}, it won't be automatically calculated anymore */
+  resizeColumn(column: number, width: number): void {
+    const fixedWidths = [...this.#fixedWidths.peek()];
+    fixedWidths[column] = Math.max(width, 1);
+    this.#fixedWidths.value = fixedWidths;
   }
 
   draw(): void {
@@ -232,12 +498,20 @@ export class Table extends Component {
         this.data.value;
 
         const headers = this.headers.value;
+        const sort = this.sort.value;
+        const { sortAscending, sortDescending } = this.charMap.value;
         let value = "";
 
-        for (const header of headers) {
+        for (const [i, header] of headers.entries()) {
+          let title = header.title;
+          if (sort?.column === i) {
+            title += " " + (sort.direction === "ascending" ? sortAscending : sortDescending);
+          }
+          title = cropToWidth(title, header.width);
+
           // Ensures non-negative numbers
-          const endPadding = Math.max(0, header.width + 1 - textWidth(header.title));
-          value += header.title + " ".repeat(endPadding);
+          const endPadding = Math.max(0, header.width + 1 - textWidth(title));
+          value += title + " ".repeat(endPadding);
         }
 
         return value;
@@ -251,6 +525,36 @@ export class Table extends Component {
     drawnObjects.data = [];
     this.#fillDataDrawObjects();
 
+    // Drawing cell cursor, it has to be created after data cells so it ends up above them
+    const cellRectangle = { column: 0, row: 0 };
+    this.#cell = new TextObject({
+      canvas,
+      view: this.view,
+      zIndex: this.zIndex,
+      style: new Computed(() => this.theme.selectedCell[this.state.value]),
+      rectangle: new Computed(() => {
+        const { column, row } = this.rectangle.value;
+        const headers = this.headers.value;
+        const selectedColumn = this.selectedColumn.value;
+
+        cellRectangle.column = column + 1;
+        for (const header of headers.slice(0, selectedColumn)) {
+          cellRectangle.column += header.width + 1;
+        }
+        cellRectangle.row = row + 3 + this.selectedRow.value - this.offsetRow.value;
+        return cellRectangle;
+      }),
+      value: new Computed(() => {
+        const dataRow = this.visibleRows.value[this.selectedRow.value - this.offsetRow.value];
+        const selectedColumn = this.selectedColumn.value;
+        const width = this.headers.value[selectedColumn]?.width ?? 0;
+
+        const cell = cropToWidth(dataRow?.[selectedColumn] ?? "", width);
+        return cell + " ".repeat(Math.max(0, width - textWidth(cell)));
+      }),
+    });
+    this.#updateCell();
+
     // Drawing frame
     const frameStyleSignal = new Computed(() => this.theme.frame[this.state.value]);
 
@@ -350,6 +654,34 @@ export class Table extends Component {
     spacer.draw();
   }
 
+  /**
+   * Re-read row count and rows which are currently displayed
+   *
+   * It gets called automatically when `data` changes, call it manually when `TableDataSource` changes.
+   */
+  refresh(): void {
+    const data = this.data.peek();
+    // Rows from data source might've changed, so they have to be requested again
+    if (!Array.isArray(data) || data !== this.#cachedData) this.#rowCache.clear();
+    this.#cachedData = data;
+
+    if (Array.isArray(data)) {
+      this.#queriedRows = this.#queryRows(data);
+      this.rowCount.value = this.#queriedRows.length;
+    } else {
+      this.#queriedRows = undefined;
+      this.rowCount.value = data.rowCount;
+    }
+
+    // Rows might've been hidden by filter
+    const lastDataRow = Math.max(this.rowCount.peek() - 1, 0);
+    const maxOffsetRow = Math.max(this.rowCount.peek() - this.rectangle.peek().height + 4, 0);
+    this.selectedRow.value = clamp(this.selectedRow.peek(), 0, lastDataRow);
+    this.offsetRow.value = clamp(this.offsetRow.peek(), 0, maxOffsetRow);
+
+    this.#updateVisibleRows();
+  }
+
   interact(method: "mouse" | "keyboard"): void {
     const interactionInterval = Date.now() - this.lastInteraction.time;
 
@@ -371,26 +703,27 @@ export class Table extends Component {
         view: this.view,
         zIndex: this.zIndex,
         style: new Computed(() => {
-          const offsetRow = this.offsetRow.value;
-          const selectedRow = this.selectedRow.value;
-          const selectedRowStyle = this.theme.selectedRow[this.state.value];
-          const style = this.style.value;
-          return (i + offsetRow) === selectedRow ? selectedRowStyle : style;
+          const dataRow = i + this.offsetRow.value;
+          const selectedRows = this.selectedRows.value;
+          const state = this.state.value;
+          const hoveredRow = this.hoveredRow.value;
+          const rowCount = this.rowCount.value;
+
+          if (selectedRows.has(dataRow) && dataRow < rowCount) return this.theme.selectedRow[state];
+          return dataRow === hoveredRow && state === "base" ? this.theme.hovered : this.theme[state];
         }),
         value: new Computed(() => {
-          const dataRow = this.data.value[i + this.offsetRow.value];
-          if (!dataRow) return "";
+          const dataRow = this.visibleRows.value[i];
           const headers = this.headers.value;
+          // Rows which are hidden or still loading get cleared
+          if (!dataRow) return " ".repeat(Math.max(0, this.rectangle.value.width - 2));
 
           let string = "";
-          let prevData = "";
-          for (const [j, dataCell] of dataRow.entries()) {
-            if (j !== 0) {
-              const padding = Math.max(0, headers[j - 1].width - textWidth(prevData) + 1);
-              string += " ".repeat(padding);
-            }
+          for (const [j, header] of headers.entries()) {
+            const dataCell = cropToWidth(dataRow[j] ?? "", header.width);
+            if (j !== 0) string += " ";
             string += dataCell;
-            prevData = dataCell;
+            if (j !== headers.length - 1) string += " ".repeat(Math.max(0, header.width - textWidth(dataCell)));
           }
 
           const endPadding = Math.max(0, this.rectangle.value.width - textWidth(string) - 2);
@@ -410,9 +743,139 @@ export class Table extends Component {
     }
   }
 
-  #popUnusedDataDrawObjects(): void {
-    for (const dataCell of this.drawnObjects.data.splice(this.data.value.length)) {
-      dataCell.erase();
+  /** Let data source sort and filter its rows, plain arrays get sorted and filtered by `refresh()` */
+  #query(): void {
+    // Selected rows would point to different rows after they get rearranged
+    const refresh = () => {
+      this.refresh();
+      this.#selectionAnchor = this.selectedRow.peek();
+      this.selectedRows.value = new Set([this.selectedRow.peek()]);
+    };
+
+    const data = this.data.peek();
+    if (Array.isArray(data) || !data.query) {
+      refresh();
+      return;
     }
+
+    const queryId = ++this.#queryId;
+    const refreshLatest = () => {
+      if (queryId === this.#queryId) refresh();
+    };
+
+    // Failed query leaves rows as they were
+    let query: void | Promise<void>;
+    try {
+      query = data.query(this.sort.peek(), this.filter.peek());
+    } catch {
+      return;
+    }
+
+    Promise.resolve(query).then(refreshLatest, () => {});
+  }
+
+  /** Show cell cursor only when it's enabled and selected row is displayed */
+  #updateCell(): void {
+    const cell = this.#cell;
+    // Table hasn't been drawn yet
+    if (!cell) return;
+
+    const selectedRow = this.selectedRow.peek();
+    const row = selectedRow - this.offsetRow.peek();
+    const enabled = this.cellCursor.peek() && selectedRow < this.rowCount.peek() && row >= 0 &&
+      row < this.rectangle.peek().height - 4;
+
+    const { drawnObjects } = this;
+    if (enabled === !!drawnObjects.cell) return;
+
+    if (enabled) drawnObjects.cell = cell;
+    else delete drawnObjects.cell;
+
+    // Hidden table has its drawn objects already erased
+    if (!this.visible.peek()) return;
+
+    if (enabled) cell.draw();
+    else cell.erase();
+  }
+
+  #queryRows(data: string[][]): string[][] {
+    const sort = this.sort.peek();
+    const filter = this.filter.peek().toLowerCase();
+
+    let rows = data;
+    if (filter) {
+      rows = rows.filter((row) => row.some((cell) => cell.toLowerCase().includes(filter)));
+    }
+
+    if (sort) {
+      const { column, direction } = sort;
+      const order = direction === "ascending" ? 1 : -1;
+      rows = rows.toSorted((a, b) =>
+        order * (a[column] ?? "").localeCompare(b[column] ?? "", undefined, { numeric: true })
+      );
+    }
+
+    return rows;
+  }
+
+  /** Column at which {column}'s cells start */
+  #columnStart(column: number): number {
+    let start = this.rectangle.peek().column + 1;
+    for (const header of this.headers.peek().slice(0, column)) {
+      start += header.width + 1;
+    }
+    return start;
+  }
+
+  #visibleRowCount(): number {
+    const { height } = this.rectangle.peek();
+    return clamp(this.rowCount.peek() - this.offsetRow.peek(), 0, Math.max(height - 4, 0));
+  }
+
+  #updateVisibleRows(): void {
+    const offsetRow = this.offsetRow.peek();
+    const visibleRowCount = this.#visibleRowCount();
+
+    const visibleRows: (string[] | undefined)[] = [];
+    for (let i = offsetRow; i < offsetRow + visibleRowCount; ++i) {
+      visibleRows.push(this.#getRow(i));
+    }
+
+    // Only rows near the displayed ones are kept cached
+    for (const index of this.#rowCache.keys()) {
+      if (index < offsetRow - visibleRowCount || index >= offsetRow + visibleRowCount * 2) {
+        this.#rowCache.delete(index);
+      }
+    }
+
+    this.visibleRows.value = visibleRows;
+  }
+
+  #getRow(index: number): string[] | undefined {
+    const data = this.data.peek();
+    if (Array.isArray(data)) return this.#queriedRows?.[index];
+
+    const cached = this.#rowCache.get(index);
+    if (cached) return cached instanceof Promise ? undefined : cached;
+
+    const row = data.getRow(index);
+    this.#rowCache.set(index, row);
+    if (!(row instanceof Promise)) return row;
+
+    row.then((loadedRow) => {
+      // Row got evicted or data changed while it was loading
+      if (this.#rowCache.get(index) !== row) return;
+      this.#rowCache.set(index, loadedRow);
+
+      const offsetRow = this.offsetRow.peek();
+      if (index >= offsetRow && index < offsetRow + this.#visibleRowCount()) {
+        this.#updateVisibleRows();
+      }
+    }, () => {
+      // Failed row stays empty and gets requested again next time it's displayed
+      if (this.#rowCache.get(index) === row) this.#rowCache.delete(index);
+    });
+
+    return undefined;
   }
 }
@@ -8,6 +8,8 @@ export interface TextOptions extends Omit<ComponentOptions, "rectangle"> {
   text: string | Signal<string>;
   overwriteWidth?: boolean | Signal<boolean>;
   multiCodePointSupport?: boolean | Signal<boolean>;
+  /** Whether `text` should be parsed as markup (see `parseMarkup`), defaults to false */
+  markup?: boolean | Signal<boolean>;
   rectangle: TextRectangle | SignalOfObject<TextRectangle>;
 }
 
@@ -39,6 +41,15 @@ export interface TextOptions extends Omit<ComponentOptions, "rectangle"> {
  *  multiCodePointCharacter: true,
  * });
  * ```
+ * Parts of text can be styled using markup when `markup` property is set to true.
+ * @example
+ * ```ts
+ * new Text({
+ *  ...,
+ *  text: "[bold red]error[/] details",
+ *  markup: true,
+ * });
+ * ```
  * Rectangle properties – `width` and `height` are calculated automatically by default.
  * To overwrite that behaviour set `overwriteRectangle` property to true.
  *
@@ -63,12 +74,14 @@ export class Text extends Component {
   text: Signal<string>;
   overwriteRectangle: Signal<boolean>;
   multiCodePointSupport: Signal<boolean>;
+  markup: Signal<boolean>;
 
   constructor(options: TextOptions) {
     super(options as unknown as ComponentOptions);
     this.text = signalify(options.text);
     this.overwriteRectangle = signalify(options.overwriteWidth ?? false);
     this.multiCodePointSupport = signalify(options.multiCodePointSupport ?? false);
+    this.markup = signalify(options.markup ?? false);
   }
 
   draw(): void {
@@ -80,6 +93,7 @@ export class Text extends Component {
       zIndex: this.zIndex,
       rectangle: this.rectangle as unknown as Signal<TextRectangle>,
       multiCodePointSupport: this.multiCodePointSupport,
+      markup: this.markup,
       overwriteRectangle: this.overwriteRectangle,
     });
 
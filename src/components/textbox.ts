@@ -4,10 +4,12 @@ import { ComponentOptions } from "../component.ts";
 
 import { BoxObject } from "../canvas/box.ts";
 import { TextObject, TextRectangle } from "../canvas/text.ts";
-import { Theme } from "../theme.ts";
-import { DeepPartial } from "../types.ts";
-import { cropToWidth, insertAt } from "../utils/strings.ts";
+import { Style, Theme } from "../theme.ts";
+import { DeepPartial, Offset, Rectangle } from "../types.ts";
+import { cropToWidth, getMultiCodePointCharacters } from "../utils/strings.ts";
 import { clamp } from "../utils/numbers.ts";
+import { readClipboard, writeClipboard } from "../utils/clipboard.ts";
+import { TokenizedLine, Tokenizer } from "../utils/syntax.ts";
 import { Computed, Effect, Signal } from "../signals/mod.ts";
 import { signalify } from "../utils/signals.ts";
 import { KeyPressEvent } from "../input_reader/types.ts";
@@ -24,19 +26,40 @@ export interface TextBoxTheme extends Theme {
   lineNumbers: Theme;
   /** Style for currently selected text row */
   highlightedLine: Theme;
+  /** Style for text selected using Shift, defaults to `cursor` */
+  selection: Theme;
+  /** Styles for tokens returned by `tokenizer`, keyed by their names */
+  syntax: Record<string, Theme>;
+  scrollbar: Theme;
+  thumb: Theme;
 }
 
-export interface TextBoxOptions extends ComponentOptions {
+/** Kind of text edit, consecutive edits of the same kind get undone together (except for "other") */
+type TextBoxEdit = "type" | "delete" | "other";
+
+interface TextBoxHistoryEntry {
+  text: string;
+  /** Cursor position as offset in text */
+  cursor: number;
+}
+
+/** {TokenizerState} is type of state which `tokenizer` passes between lines */
+export interface TextBoxOptions<TokenizerState = unknown> extends ComponentOptions {
   text?: string | Signal<string>;
-  validator?: RegExp | Signal<RegExp>;
+  /** Characters that don't match it get rejected while typing and pasting */
+  validator?: RegExp | Signal<RegExp | undefined>;
   theme: DeepPartial<TextBoxTheme, "cursor">;
   multiCodePointSupport?: boolean | Signal<boolean>;
   /** Whether to highlight currently selected text row */
   lineHighlighting?: boolean | Signal<boolean>;
   /** Whether to number textbox rows */
   lineNumbering?: boolean | Signal<boolean>;
-  /** Function that defines what key does what while textbox is focused/active */
+  /** Function that defines what key does what while textbox is focused/active, typed text gets inserted regardless of it */
   keyboardHandler?: (keyPress: KeyPressEvent) => void;
+  /** Function used to highlight syntax, tokens get styled using `syntax` theme (see `jsonTokenizer` and `iniTokenizer`) */
+  tokenizer?: Tokenizer<TokenizerState> | Signal<Tokenizer<TokenizerState> | undefined>;
+  /** Whether to draw vertical scrollbar in the rightmost column, defaults to false */
+  scrollbar?: boolean | Signal<boolean>;
 }
 
 /**
@@ -83,124 +106,339 @@ export interface TextBoxOptions extends ComponentOptions {
  *  multiCodePointCharacter: true,
  * });
  * ```
+ *
+ * Text scrolls to keep the cursor visible, it can also be scrolled using mouse wheel (hold shift to scroll horizontally).
+ * Set `scrollbar` property to true to draw vertical scrollbar styled using `scrollbar` and `thumb` themes.
+ *
+ * Text can be selected by holding Shift while moving the cursor, selection gets styled using `selection` theme.
+ *  - Ctrl+C/Ctrl+X copy/cut selected text, it also gets sent to the system clipboard using OSC 52
+ *  - Ctrl+V pastes text copied within the app
+ *  - Ctrl+Z/Ctrl+Y undo/redo changes, consecutive typing gets undone at once
+ * @example
+ * ```ts
+ * new TextBox({
+ *  ...,
+ *  theme: {
+ *    ...,
+ *    selection: { base: crayon.bgBlue },
+ *  },
+ * });
+ * ```
+ *
+ * Syntax can be highlighted by passing `tokenizer`, tokens it returns get styled using `syntax` theme.
+ * Only lines which changed since the last time get tokenized again.
+ * @example
+ * ```ts
+ * new TextBox({
+ *  ...,
+ *  tokenizer: jsonTokenizer,
+ *  theme: {
+ *    ...,
+ *    syntax: {
+ *      key: { base: crayon.lightBlue },
+ *      string: { base: crayon.green },
+ *      number: { base: crayon.yellow },
+ *    },
+ *  },
+ * });
+ * ```
  */
-export class TextBox extends Box {
+export class TextBox<TokenizerState = unknown> extends Box {
   declare drawnObjects: {
     box: BoxObject;
     lines: TextObject[];
     lineNumbers: TextObject[];
+    selections: TextObject[];
     cursor: TextObject;
+    scrollbar?: BoxObject;
+    thumb?: BoxObject;
   };
   declare theme: TextBoxTheme;
 
   #textLines: Computed<string[]>;
+  /** Part of the rectangle in which text gets drawn, without line numbers and scrollbar */
+  #textRectangle: Computed<Rectangle>;
+  /** Offsets in text where selection starts and ends, sorted */
+  #selection: Computed<[number, number] | undefined>;
+  #undoHistory: TextBoxHistoryEntry[];
+  #redoHistory: TextBoxHistoryEntry[];
+  #lastEdit?: TextBoxEdit;
+  #tokenizedLines: Computed<TokenizedLine<TokenizerState>[] | undefined>;
+  /** Tokenized lines keyed by their text and state they were tokenized with */
+  #tokenCache: Map<string, Map<TokenizerState | undefined, TokenizedLine<TokenizerState>>>;
+  #cachedTokenizer?: Tokenizer<TokenizerState>;
+  /** Whether key presses get handled by the default handler, which uses Ctrl shortcuts */
+  #defaultKeyboardHandler: boolean;
 
   text: Signal<string>;
+  validator: Signal<RegExp | undefined>;
   lineNumbering: Signal<boolean>;
   lineHighlighting: Signal<boolean>;
   cursorPosition: Signal<CursorPosition>;
+  /** Position where selection starts, it ends at `cursorPosition` */
+  selectionStart: Signal<CursorPosition | undefined>;
   multiCodePointSupport: Signal<boolean>;
+  tokenizer: Signal<Tokenizer<TokenizerState> | undefined>;
+  scrollbar: Signal<boolean>;
+  /** Amount of columns and rows text is scrolled by, it follows the cursor */
+  offset: Signal<Offset>;
 
-  constructor(options: TextBoxOptions) {
+  constructor(options: TextBoxOptions<TokenizerState>) {
     super(options);
 
     this.theme.value ??= this.theme;
     this.theme.lineNumbers ??= this.theme;
     this.theme.highlightedLine ??= this.theme;
+    this.theme.selection ??= this.theme.cursor;
+    this.theme.syntax ??= {};
+    this.theme.scrollbar ??= this.theme;
+    this.theme.thumb ??= this.theme;
 
     this.cursorPosition = new Signal({ x: 0, y: 0 }, { deepObserve: true });
+    this.selectionStart = new Signal<CursorPosition | undefined>(undefined);
+    this.offset = new Signal({ columns: 0, rows: 0 }, { deepObserve: true });
+
+    this.#defaultKeyboardHandler = !options.keyboardHandler;
 
     this.text = signalify(options.text ?? "");
+    this.validator = signalify(options.validator);
     this.lineNumbering = signalify(options.lineNumbering ?? false);
     this.lineHighlighting = signalify(options.lineHighlighting ?? false);
     this.multiCodePointSupport = signalify(options.multiCodePointSupport ?? false);
+    this.tokenizer = signalify<Tokenizer<TokenizerState> | undefined>(options.tokenizer);
+    this.scrollbar = signalify(options.scrollbar ?? false);
+
+    this.#undoHistory = [];
+    this.#redoHistory = [];
+    this.#tokenCache = new Map();
 
     // FIXME: This creates unnecessary arrays each time it runs
     this.#textLines = new Computed(() => this.text.value.split("\n"));
 
+    const textRectangle = { column: 0, row: 0, width: 0, height: 0 };
+    this.#textRectangle = new Computed(() => {
+      const { column, row, width, height } = this.rectangle.value;
+      const lineCount = this.#textLines.value.length;
+      const { rows } = this.offset.value;
+
+      // Line numbers are drawn for each row, even ones past the last line
+      const lineNumbersWidth = this.lineNumbering.value ? `${Math.max(lineCount, rows + height)}`.length : 0;
+      const scrollbarWidth = this.scrollbar.value ? 1 : 0;
+
+      textRectangle.column = column + lineNumbersWidth;
+      textRectangle.row = row;
+      textRectangle.width = Math.max(width - lineNumbersWidth - scrollbarWidth, 0);
+      textRectangle.height = height;
+      return textRectangle;
+    });
+
+    this.#tokenizedLines = new Computed(() => {
+      const textLines = this.#textLines.value;
+      const tokenizer = this.tokenizer.value;
+      if (!tokenizer) return undefined;
+      return this.#tokenize(textLines, tokenizer);
+    });
+
+    this.#selection = new Computed(() => {
+      // associate computed with this.#textLines
+      this.#textLines.value;
+
+      const selectionStart = this.selectionStart.value;
+      const { x, y } = this.cursorPosition.value;
+      if (!selectionStart) return undefined;
+
+      const start = this.#offset(selectionStart);
+      const end = this.#offset({ x, y });
+      if (start === end) return undefined;
+      return start < end ? [start, end] : [end, start];
+    });
+
     new Effect(() => {
       this.#updateLineDrawObjects();
     });
 
+    // Keep cursor within visible part of text
+    new Effect(() => {
+      // associate effect with text rectangle without associating it with this.offset, so text can be scrolled away from cursor
+      this.rectangle.value;
+      this.lineNumbering.value;
+      this.scrollbar.value;
+
+      const { x, y } = this.cursorPosition.value;
+      const { width, height } = this.#textRectangle.peek();
+      const offset = this.offset.peek();
+
+      const columns = clamp(offset.columns, Math.max(x - width + 1, 0), x);
+      const rows = clamp(offset.rows, Math.max(y - height + 1, 0), y);
+
+      if (offset.columns !== columns) this.offset.value.columns = columns;
+      if (offset.rows !== rows) this.offset.value.rows = rows;
+    });
+
+    this.scrollbar.subscribe(() => {
+      if (this.drawnObjects.box && this.visible.peek()) this.draw();
+    });
+
+    this.on("mouseScroll", ({ scroll, shift }) => {
+      if (shift) this.scrollBy(scroll, 0);
+      else this.scrollBy(0, scroll);
+    });
+
     this.on(
       "keyPress",
-      options.keyboardHandler ?? (({ key, ctrl, meta }) => {
-        if (ctrl || meta) return;
+      options.keyboardHandler ?? (({ key, ctrl, meta, shift }) => {
+        if (meta) return;
+
+        if (ctrl) {
+          switch (key) {
+            case "c":
+              this.copy();
+              break;
+            case "x":
+              this.cut();
+              break;
+            case "v":
+              this.paste();
+              break;
+            case "z":
+              this.undo();
+              break;
+            case "y":
+              this.redo();
+              break;
+          }
+          return;
+        }
 
         const cursorPosition = this.cursorPosition.peek();
-        const textLines = this.#textLines.peek();
-        const textLine = textLines[cursorPosition.y] ??= "";
-
-        let character: string;
+        const selection = this.#selection.peek();
+        const offset = this.#offset(cursorPosition);
 
         switch (key) {
           case "left":
-            --cursorPosition.x;
-            break;
           case "right":
-            ++cursorPosition.x;
-            break;
           case "up":
-            --cursorPosition.y;
-            break;
           case "down":
-            if (textLines.length - 1 > cursorPosition.y) {
-              ++cursorPosition.y;
-            }
-            break;
           case "home":
-            cursorPosition.x = 0;
-            return;
           case "end":
-            cursorPosition.x = textLine.length;
+            this.#moveCursor(key, shift);
             return;
 
           case "backspace":
-            if (cursorPosition.x === 0) {
-              if (cursorPosition.y === 0) return;
-              textLines[cursorPosition.y - 1] += textLines[cursorPosition.y];
-              textLines.splice(cursorPosition.y, 1);
-              --cursorPosition.y;
-              cursorPosition.x = textLines[cursorPosition.y].length;
-            } else {
-              textLines[cursorPosition.y] = textLine.slice(0, cursorPosition.x - 1) + textLine.slice(cursorPosition.x);
-              cursorPosition.x = clamp(cursorPosition.x - 1, 0, textLine.length);
-            }
-            break;
+            if (selection) this.#replace(selection[0], selection[1], "", "delete");
+            else if (offset > 0) this.#replace(offset - 1, offset, "", "delete");
+            return;
           case "delete":
-            textLines[cursorPosition.y] = textLine.slice(0, cursorPosition.x) + textLine.slice(cursorPosition.x + 1);
+            if (selection) this.#replace(selection[0], selection[1], "", "delete");
+            else if (offset < this.text.peek().length) this.#replace(offset, offset + 1, "", "delete");
+            return;
+          case "return": {
+            this.selectionStart.value = undefined;
+            this.#lastEdit = undefined;
 
-            if (cursorPosition.x === textLine.length && textLines.length - 1 > cursorPosition.y) {
-              textLines[cursorPosition.y] += textLines[cursorPosition.y + 1];
-              textLines.splice(cursorPosition.y + 1, 1);
+            if (cursorPosition.y === this.#textLines.peek().length - 1) {
+              this.#recordHistory("other");
+              this.text.value += "\n";
             }
-            break;
-          case "return":
+
             ++cursorPosition.y;
-            break;
-
-          case "space":
-            character = " ";
-            break;
-          case "tab":
-            character = "\t";
-            break;
-          default:
-            if (key.length > 1) return;
-            character = key;
+            cursorPosition.x = clamp(cursorPosition.x, 0, this.#textLines.peek()[cursorPosition.y].length);
+            return;
+          }
         }
+      }),
+    );
 
-        cursorPosition.y = clamp(cursorPosition.y, 0, textLines.length);
-        cursorPosition.x = clamp(cursorPosition.x, 0, textLines[cursorPosition.y]?.length ?? 0);
+    this.on("textInput", ({ text }) => {
+      const validator = this.validator.peek();
+      if (validator) text = [...text].filter((char) => validator.test(char)).join("");
+      if (!text) return;
 
-        if (character!) {
-          textLines[cursorPosition.y] = insertAt(textLine, cursorPosition.x, character);
-          ++cursorPosition.x;
-        }
+      const offset = this.#offset(this.cursorPosition.peek());
+      const [start, end] = this.#selection.peek() ?? [offset, offset];
+      this.#replace(start, end, text, "type");
+    });
 
-        this.text.value = textLines.join("\n");
-      }),
-    );
+    this.on("paste", ({ text }) => {
+      this.insert(text);
+    });
+  }
+
+  /** Returns currently selected text, empty string when nothing is selected */
+  selectedText(): string {
+    const selection = this.#selection.peek();
+    return selection ? this.text.peek().slice(...selection) : "";
+  }
+
+  /**
+   * Insert {text} at cursor position, replacing selected text
+   *
+   * Characters other than line breaks rejected by `validator` get left out.
+   */
+  insert(text: string): void {
+    const validator = this.validator.peek();
+    text = text.replace(/\r\n?/g, "\n");
+    if (validator) text = [...text].filter((char) => char === "\n" || validator.test(char)).join("");
+    if (!text) return;
+
+    const offset = this.#offset(this.cursorPosition.peek());
+    const [start, end] = this.#selection.peek() ?? [offset, offset];
+    this.#replace(start, end, text, "other");
+  }
+
+  /** Copy selected text to the clipboard */
+  copy(): void {
+    const text = this.selectedText();
+    if (!text) return;
+    writeClipboard(text, this.tui.stdout);
+  }
+
+  /** Copy selected text to the clipboard and remove it */
+  cut(): void {
+    const selection = this.#selection.peek();
+    if (!selection) return;
+    this.copy();
+    this.#replace(selection[0], selection[1], "", "other");
+  }
+
+  /** Insert text from the clipboard at cursor position, replacing selected text */
+  paste(): void {
+    const text = readClipboard();
+    if (!text) return;
+    this.insert(text);
+  }
+
+  /** Revert last change, consecutive typing or deleting gets reverted at once */
+  undo(): void {
+    const entry = this.#undoHistory.pop();
+    if (!entry) return;
+    this.#redoHistory.push(this.#historyEntry());
+    this.#restore(entry);
+  }
+
+  /** Reapply last change reverted using `undo()` */
+  redo(): void {
+    const entry = this.#redoHistory.pop();
+    if (!entry) return;
+    this.#undoHistory.push(this.#historyEntry());
+    this.#restore(entry);
+  }
+
+  /** Scroll text by given amount of {columns} and {rows}, offset gets clamped so text doesn't scroll past its end */
+  scrollBy(columns: number, rows: number): void {
+    const textLines = this.#textLines.peek();
+    const { width, height } = this.#textRectangle.peek();
+    const offset = this.offset.peek();
+
+    // Cursor can be placed after the last character of the longest line
+    const maxColumns = Math.max(textLines.reduce((p, c) => Math.max(p, c.length), 0) + 1 - width, 0);
+    const maxRows = Math.max(textLines.length - height, 0);
+
+    const offsetColumns = clamp(offset.columns + columns, 0, maxColumns);
+    const offsetRows = clamp(offset.rows + rows, 0, maxRows);
+
+    if (offset.columns !== offsetColumns) this.offset.value.columns = offsetColumns;
+    if (offset.rows !== offsetRows) this.offset.value.rows = offsetRows;
   }
 
   draw(): void {
@@ -211,6 +449,7 @@ export class TextBox extends Box {
 
     drawnObjects.lineNumbers = [];
     drawnObjects.lines = [];
+    drawnObjects.selections = [];
 
     this.#updateLineDrawObjects();
 
@@ -223,28 +462,76 @@ export class TextBox extends Box {
       value: new Computed(() => {
         const cursorPosition = this.cursorPosition.value;
         const value = this.#textLines.value[cursorPosition.y];
-        return value?.[cursorPosition.x] ?? " ";
+        const { width, height } = this.#textRectangle.value;
+        const offset = this.offset.value;
+
+        // Cursor gets hidden when text gets scrolled away from it
+        if (
+          cursorPosition.x < offset.columns || cursorPosition.x >= offset.columns + width ||
+          cursorPosition.y < offset.rows || cursorPosition.y >= offset.rows + height
+        ) {
+          return "";
+        }
+
+        return value?.[cursorPosition.x]?.replace("\t", " ") ?? " ";
       }),
       style: new Computed(() => this.theme.cursor[this.state.value]),
       rectangle: new Computed(() => {
         const cursorPosition = this.cursorPosition.value;
-        const { row, column, width, height } = this.rectangle.value;
-
-        cursorRectangle.row = row + Math.min(cursorPosition.y, height - 1);
-
-        if (this.lineNumbering.value) {
-          const lineNumbersWidth = this.drawnObjects.lineNumbers[0].rectangle.peek().width;
-          cursorRectangle.column = column + lineNumbersWidth + Math.min(cursorPosition.x, width - lineNumbersWidth - 1);
-        } else {
-          cursorRectangle.column = column + Math.min(cursorPosition.x, width - 1);
-        }
+        const { column, row } = this.#textRectangle.value;
+        const offset = this.offset.value;
 
+        cursorRectangle.column = column + cursorPosition.x - offset.columns;
+        cursorRectangle.row = row + cursorPosition.y - offset.rows;
         return cursorRectangle;
       }),
     });
 
     drawnObjects.cursor = cursor;
     cursor.draw();
+
+    if (!this.scrollbar.peek()) return;
+
+    const scrollbarRectangle = { column: 0, row: 0, width: 1, height: 0 };
+    const scrollbar = new BoxObject({
+      canvas,
+      view: this.view,
+      zIndex: this.zIndex,
+      style: new Computed(() => this.theme.scrollbar[this.state.value]),
+      rectangle: new Computed(() => {
+        const { column, row, width, height } = this.rectangle.value;
+        scrollbarRectangle.column = column + width - 1;
+        scrollbarRectangle.row = row;
+        scrollbarRectangle.height = height;
+        return scrollbarRectangle;
+      }),
+    });
+
+    const thumbRectangle = { column: 0, row: 0, width: 1, height: 0 };
+    const thumb = new BoxObject({
+      canvas,
+      view: this.view,
+      zIndex: this.zIndex,
+      style: new Computed(() => this.theme.thumb[this.state.value]),
+      rectangle: new Computed(() => {
+        const { column, row, width, height } = this.rectangle.value;
+        const offset = this.offset.value.rows;
+        const maxOffset = Math.max(this.#textLines.value.length - height, offset);
+
+        const thumbSize = clamp(Math.round(height * height / (height + maxOffset)), 1, height);
+
+        thumbRectangle.column = column + width - 1;
+        thumbRectangle.row = row + (maxOffset && Math.round((height - thumbSize) * offset / maxOffset));
+        thumbRectangle.height = thumbSize;
+        return thumbRectangle;
+      }),
+    });
+
+    drawnObjects.scrollbar = scrollbar;
+    drawnObjects.thumb = thumb;
+
+    scrollbar.draw();
+    thumb.draw();
   }
 
   interact(method: "keyboard" | "mouse"): void {
@@ -252,8 +539,180 @@ export class TextBox extends Box {
     super.interact(method);
   }
 
+  /** Clipboard and history shortcuts take precedence over Ctrl+C closing the Tui */
+  capturesKey({ key, ctrl, meta }: KeyPressEvent): boolean {
+    return this.#defaultKeyboardHandler && ctrl && !meta && ["c", "x", "v", "z", "y"].includes(key);
+  }
+
+  /** Returns offset in text of given cursor {position} */
+  #offset({ x, y }: CursorPosition): number {
+    const textLines = this.#textLines.peek();
+    y = clamp(y, 0, textLines.length - 1);
+
+    let offset = 0;
+    for (let i = 0; i < y; ++i) {
+      offset += textLines[i].length + 1;
+    }
+    return offset + clamp(x, 0, textLines[y].length);
+  }
+
+  #setCursor(offset: number): void {
+    const textLines = this.#textLines.peek();
+
+    let y = 0;
+    while (y < textLines.length - 1 && offset > textLines[y].length) {
+      offset -= textLines[y].length + 1;
+      ++y;
+    }
+
+    const cursorPosition = this.cursorPosition.peek();
+    cursorPosition.y = y;
+    cursorPosition.x = offset;
+  }
+
+  #moveCursor(key: "left" | "right" | "up" | "down" | "home" | "end", select: boolean): void {
+    const cursorPosition = this.cursorPosition.peek();
+    const textLines = this.#textLines.peek();
+
+    this.#lastEdit = undefined;
+    if (!select) this.selectionStart.value = undefined;
+    else if (!this.selectionStart.peek()) this.selectionStart.value = { ...cursorPosition };
+
+    switch (key) {
+      case "left":
+        --cursorPosition.x;
+        break;
+      case "right":
+        ++cursorPosition.x;
+        break;
+      case "up":
+        --cursorPosition.y;
+        break;
+      case "down":
+        if (textLines.length - 1 > cursorPosition.y) {
+          ++cursorPosition.y;
+        }
+        break;
+      case "home":
+        cursorPosition.x = 0;
+        return;
+      case "end":
+        cursorPosition.x = textLines[cursorPosition.y]?.length ?? 0;
+        return;
+    }
+
+    cursorPosition.y = clamp(cursorPosition.y, 0, textLines.length - 1);
+    cursorPosition.x = clamp(cursorPosition.x, 0, textLines[cursorPosition.y]?.length ?? 0);
+  }
+
+  /** Replace text between {start} and {end} offsets with {text} and move cursor after it */
+  #replace(start: number, end: number, text: string, edit: TextBoxEdit): void {
+    this.#recordHistory(edit);
+
+    const value = this.text.peek();
+    this.selectionStart.value = undefined;
+    this.text.value = value.slice(0, start) + text + value.slice(end);
+    this.#setCursor(start + text.length);
+  }
+
+  #historyEntry(): TextBoxHistoryEntry {
+    return { text: this.text.peek(), cursor: this.#offset(this.cursorPosition.peek()) };
+  }
+
+  #recordHistory(edit: TextBoxEdit): void {
+    if (edit === this.#lastEdit && edit !== "other") return;
+    this.#lastEdit = edit;
+
+    this.#undoHistory.push(this.#historyEntry());
+    this.#redoHistory.length = 0;
+  }
+
+  #restore({ text, cursor }: TextBoxHistoryEntry): void {
+    this.#lastEdit = undefined;
+    this.selectionStart.value = undefined;
+    this.text.value = text;
+    this.#setCursor(cursor);
+  }
+
+  /** Tokenize {textLines}, reusing lines which were already tokenized with the same state */
+  #tokenize(textLines: string[], tokenizer: Tokenizer<TokenizerState>): TokenizedLine<TokenizerState>[] {
+    const previousCache = tokenizer === this.#cachedTokenizer ? this.#tokenCache : new Map();
+    const cache: typeof previousCache = new Map();
+
+    let state: TokenizerState | undefined = undefined;
+    const tokenizedLines = textLines.map((line) => {
+      const tokenized = previousCache.get(line)?.get(state) ?? tokenizer(line, state);
+
+      let lineCache = cache.get(line);
+      if (!lineCache) cache.set(line, lineCache = new Map());
+      lineCache.set(state, tokenized);
+
+      state = tokenized.state;
+      return tokenized;
+    });
+
+    this.#tokenCache = cache;
+    this.#cachedTokenizer = tokenizer;
+    return tokenizedLines;
+  }
+
+  /** Returns part of line drawn at {offset} which fits within the textbox along with styles of its characters */
+  #visibleLine(offset: number): { text: string; charStyles: (Style | undefined)[] } {
+    const tokenizedLines = this.#tokenizedLines.value;
+    const multiCodePointSupport = this.multiCodePointSupport.value;
+    const state = this.state.value;
+
+    const { width } = this.#textRectangle.value;
+    const { columns, rows } = this.offset.value;
+
+    const y = offset + rows;
+    const line = this.#textLines.value[y]?.replace("\t", " ") ?? "";
+    const text = cropToWidth(line.slice(columns), width);
+
+    const charStyles: (Style | undefined)[] = [];
+    const spans = tokenizedLines?.[y]?.spans;
+    if (spans) {
+      // Styles of each UTF-16 code unit of the line
+      const unitStyles: (Style | undefined)[] = [];
+      for (const { text, token } of spans) {
+        const style = token ? this.theme.syntax[token]?.[state] : undefined;
+        for (let i = 0; i < text.length; ++i) unitStyles.push(style);
+      }
+
+      let unit = columns;
+      for (const char of multiCodePointSupport ? getMultiCodePointCharacters(text) : text) {
+        charStyles.push(unitStyles[unit]);
+        unit += char.length;
+      }
+    }
+
+    return { text: text.padEnd(width, " "), charStyles };
+  }
+
+  /** Returns selected part of line drawn at {offset} along with column it starts at */
+  #visibleSelection(offset: number): { text: string; column: number } {
+    const selection = this.#selection.value;
+    const textLines = this.#textLines.value;
+    const { column, width } = this.#textRectangle.value;
+    const { columns, rows } = this.offset.value;
+
+    const y = offset + rows;
+    const line = textLines[y];
+    if (!selection || line === undefined) return { text: "", column };
+
+    // Selected line break gets shown as a space after the line
+    const lineStart = this.#offset({ x: 0, y });
+    const start = clamp(selection[0] - lineStart, columns, columns + width);
+    const end = clamp(selection[1] - lineStart, start, Math.min(columns + width, line.length + 1));
+
+    return {
+      text: `${line} `.slice(start, end).replaceAll("\t", " "),
+      column: column + start - columns,
+    };
+  }
+
   #updateLineDrawObjects(): void {
-    const { lineNumbers, lines } = this.drawnObjects;
+    const { lineNumbers, lines, selections } = this.drawnObjects;
 
     const { height } = this.rectangle.value;
     const lineNumbering = this.lineNumbering.value;
@@ -273,13 +732,10 @@ export class TextBox extends Box {
           multiCodePointSupport: this.multiCodePointSupport,
           style: new Computed(() => this.theme.lineNumbers[this.state.value]),
           value: new Computed(() => {
-            const { height } = this.rectangle.value;
-            const cursorPosition = this.cursorPosition.value;
-
-            const lineNumber = offset + Math.max(cursorPosition.y - height + 1, 0) + 1;
-            const maxLineNumber = this.#textLines.value.length;
-
-            return `${lineNumber}`.padEnd(`${maxLineNumber}`.length, " ");
+            const { column } = this.rectangle.value;
+            const textRectangle = this.#textRectangle.value;
+            const lineNumber = offset + this.offset.value.rows + 1;
+            return `${lineNumber}`.padEnd(textRectangle.column - column, " ");
           }),
           rectangle: new Computed(() => {
             const { row, column } = this.rectangle.value;
@@ -299,6 +755,7 @@ export class TextBox extends Box {
       const line = lines[offset];
       if (!line) {
         const lineRectangle: TextRectangle = { column: 0, row: 0, width: 0 };
+        const visibleLine = new Computed(() => this.#visibleLine(offset));
         const line = new TextObject({
           canvas,
           view: this.view,
@@ -311,44 +768,18 @@ export class TextBox extends Box {
             const state = this.state.value;
             const highlightLine = this.lineHighlighting.value;
             const cursorPosition = this.cursorPosition.value;
-
-            const offsetY = Math.max(cursorPosition.y - this.rectangle.value.height + 1, 0);
-            const currentLine = offsetY + offset;
+            const currentLine = this.offset.value.rows + offset;
 
             if (highlightLine && cursorPosition.y === currentLine) {
               return this.theme.highlightedLine[state];
             } else return this.theme.value[state];
           }),
-          value: new Computed(() => {
-            const cursorPosition = this.cursorPosition.value;
-
-            let { width, height } = this.rectangle.value;
-            if (this.lineNumbering.value) {
-              const lineNumbersWidth = this.drawnObjects.lineNumbers[0].rectangle.peek().width;
-              width -= lineNumbersWidth;
-            }
-
-            const offsetX = cursorPosition.x - width + 1;
-            const offsetY = Math.max(cursorPosition.y - height + 1, 0);
-
-            const value = this.#textLines.value[offset + offsetY]?.replace("\t", " ") ?? "";
-
-            return cropToWidth(offsetX > 0 ? value.slice(offsetX, cursorPosition.x) : value, width).padEnd(width, " ");
-          }),
+          value: new Computed(() => visibleLine.value.text),
+          charStyles: new Computed(() => visibleLine.value.charStyles),
           rectangle: new Computed(() => {
-            // associate computed with this.lineNumbering and this.#textLines
-            this.lineNumbering.value;
-            this.#textLines.value;
-
-            const { row, column } = this.rectangle.value;
+            const { row, column } = this.#textRectangle.value;
             lineRectangle.column = column;
             lineRectangle.row = row + offset;
-
-            if (this.lineNumbering.value) {
-              const lineNumbersWidth = this.drawnObjects.lineNumbers[0].rectangle.peek().width;
-              lineRectangle.column += lineNumbersWidth;
-            }
-
             return lineRectangle;
           }),
         });
@@ -359,6 +790,32 @@ export class TextBox extends Box {
         line.erase();
         delete lines[offset];
       }
+
+      const selection = selections[offset];
+      if (!selection) {
+        const selectionRectangle: TextRectangle = { column: 0, row: 0 };
+        const visibleSelection = new Computed(() => this.#visibleSelection(offset));
+        const selection = new TextObject({
+          canvas,
+          view: this.view,
+          zIndex: this.zIndex,
+          multiCodePointSupport: this.multiCodePointSupport,
+          style: new Computed(() => this.theme.selection[this.state.value]),
+          value: new Computed(() => visibleSelection.value.text),
+          rectangle: new Computed(() => {
+            const { row } = this.#textRectangle.value;
+            selectionRectangle.column = visibleSelection.value.column;
+            selectionRectangle.row = row + offset;
+            return selectionRectangle;
+          }),
+        });
+
+        selections[offset] = selection;
+        selection.draw();
+      } else if (offset >= height) {
+        selection.erase();
+        delete selections[offset];
+      }
     }
   }
 }
@@ -0,0 +1,490 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Component, ComponentOptions } from "../component.ts";
+
+import { TextObject } from "../canvas/text.ts";
+
+import type { DeepPartial } from "../types.ts";
+import { Theme } from "../theme.ts";
+import { clamp } from "../utils/numbers.ts";
+import { cropToWidth, textWidth } from "../utils/strings.ts";
+import { Computed, Signal } from "../signals/mod.ts";
+import { signalify } from "../utils/signals.ts";
+
+export const TreeUnicodeCharacters = {
+  sharp: {
+    branch: "├",
+    lastBranch: "└",
+    horizontal: "─",
+    vertical: "│",
+    expanded: "▾",
+    collapsed: "▸",
+    loading: "…",
+    leaf: "─",
+  },
+  rounded: {
+    branch: "├",
+    lastBranch: "╰",
+    horizontal: "─",
+    vertical: "│",
+    expanded: "▾",
+    collapsed: "▸",
+    loading: "…",
+    leaf: "─",
+  },
+};
+
+export type TreeUnicodeCharactersType = {
+  [key in keyof typeof TreeUnicodeCharacters["rounded"]]: string;
+};
+
+export interface TreeTheme extends Theme {
+  guides: Theme;
+  selectedNode: Theme;
+}
+
+export interface TreeNodeOptions<Data = unknown> {
+  label: string | Signal<string>;
+  data?: Data;
+  expanded?: boolean | Signal<boolean>;
+  children?: (TreeNode<Data> | TreeNodeOptions<Data>)[];
+  /**
+   * Gets called the first time node without `children` gets expanded.
+   *
+   * Nodes it resolves with become node's children.
+   */
+  loadChildren?: (node: TreeNode<Data>) => Promise<(TreeNode<Data> | TreeNodeOptions<Data>)[]>;
+}
+
+/** Single node of a `Tree`, its `children` and `expanded` state can be changed at any time */
+export class TreeNode<Data = unknown> {
+  label: Signal<string>;
+  data?: Data;
+  expanded: Signal<boolean>;
+  loading: Signal<boolean>;
+  /** Node's children, it's `undefined` until they get loaded when node has `loadChildren`, replace its value to update them */
+  children: Signal<TreeNode<Data>[] | undefined>;
+  loadChildren?: (node: TreeNode<Data>) => Promise<(TreeNode<Data> | TreeNodeOptions<Data>)[]>;
+  /** Node under which this node is displayed, set by `Tree` */
+  parent?: TreeNode<Data>;
+
+  #pendingLoad?: Promise<void>;
+
+  constructor(options: TreeNodeOptions<Data>) {
+    this.label = signalify(options.label);
+    this.data = options.data;
+    this.expanded = signalify(options.expanded ?? false);
+    this.loading = new Signal(false);
+    this.loadChildren = options.loadChildren;
+    this.children = new Signal(options.children && TreeNode.from(options.children));
+  }
+
+  /** Converts {nodes} to `TreeNode` instances, nodes which already are instances are kept as is */
+  static from<Data>(nodes: (TreeNode<Data> | TreeNodeOptions<Data>)[]): TreeNode<Data>[] {
+    return nodes.map((node) => node instanceof TreeNode ? node : new TreeNode(node));
+  }
+
+  /** Whether node has children or is able to load them */
+  get expandable(): boolean {
+    const children = this.children.peek();
+    return children ? children.length > 0 : !!this.loadChildren;
+  }
+
+  /**
+   * Expand node, loading its children using `loadChildren` if they weren't loaded yet
+   *
+   * If loading fails node gets collapsed and returned promise rejects.
+   */
+  expand(): Promise<void> {
+    this.expanded.value = true;
+
+    if (this.children.peek() || !this.loadChildren) return Promise.resolve();
+    return this.#pendingLoad ??= this.#load(this.loadChildren);
+  }
+
+  async #load(loadChildren: NonNullable<TreeNode<Data>["loadChildren"]>): Promise<void> {
+    this.loading.value = true;
+    try {
+      const children = await loadChildren(this);
+      this.children.value = TreeNode.from(children);
+    } catch (error) {
+      this.expanded.value = false;
+      throw error;
+    } finally {
+      this.#pendingLoad = undefined;
+      this.loading.value = false;
+    }
+  }
+
+  collapse(): void {
+    this.expanded.value = false;
+  }
+
+  /** Collapse node if it's expanded, expand it otherwise */
+  toggle(): Promise<void> {
+    if (!this.expanded.peek()) return this.expand();
+    this.collapse();
+    return Promise.resolve();
+  }
+}
+
+/** Visible row of a `Tree` */
+export interface TreeRow<Data = unknown> {
+  node: TreeNode<Data>;
+  depth: number;
+  /** Branch guides and expand marker displayed before node's label */
+  guide: string;
+}
+
+export interface TreeOptions<Data = unknown> extends ComponentOptions {
+  theme: DeepPartial<TreeTheme, "guides" | "selectedNode">;
+  nodes: (TreeNode<Data> | TreeNodeOptions<Data>)[] | Signal<TreeNode<Data>[]>;
+  charMap: keyof typeof TreeUnicodeCharacters | TreeUnicodeCharactersType;
+  selectedNode?: TreeNode<Data> | undefined | Signal<TreeNode<Data> | undefined>;
+}
+
+/**
+ * Component for creating interactive tree view
+ *
+ *  - Up/Down, Home/End and PageUp/PageDown move selection
+ *  - Right expands selected node or moves to its first child
+ *  - Left collapses selected node or moves to its parent
+ *  - Return and clicking on either marker or already selected node toggles it
+ *
+ * @example
+ * ```ts
+ * new Tree({
+ *   parent: tui,
+ *   charMap: "rounded",
+ *   nodes: [
+ *     {
+ *       label: "src",
+ *       expanded: true,
+ *       children: [
+ *         { label: "mod.ts" },
+ *         {
+ *           label: "components",
+ *           loadChildren: async () => {
+ *             const children = [];
+ *             for await (const entry of Deno.readDir("./src/components")) {
+ *               children.push({ label: entry.name });
+ *             }
+ *             return children;
+ *           },
+ *         },
+ *       ],
+ *     },
+ *   ],
+ *   theme: {
+ *     base: crayon.bgBlack.white,
+ *     guides: { base: crayon.bgBlack.lightBlack },
+ *     selectedNode: {
+ *       base: crayon.bgBlue.white,
+ *       focused: crayon.bgLightBlue.white,
+ *     },
+ *   },
+ *   rectangle: {
+ *     column: 1,
+ *     row: 1,
+ *     width: 30,
+ *     height: 10,
+ *   },
+ *   zIndex: 0,
+ * });
+ * ```
+ */
+export class Tree<Data = unknown> extends Component {
+  declare theme: TreeTheme;
+  declare drawnObjects: { guides: TextObject[]; labels: TextObject[] };
+
+  /** Nodes whose signals are subscribed to, along with function which unsubscribes from them */
+  #watchedNodes: Map<TreeNode<Data>, () => void>;
+
+  nodes: Signal<TreeNode<Data>[]>;
+  rows: Signal<TreeRow<Data>[]>;
+  charMap: Signal<TreeUnicodeCharactersType>;
+  selectedNode: Signal<TreeNode<Data> | undefined>;
+  offsetRow: Signal<number>;
+
+  constructor(options: TreeOptions<Data>) {
+    super(options as unknown as ComponentOptions);
+
+    const { nodes } = options;
+    this.nodes = nodes instanceof Signal ? nodes : new Signal(TreeNode.from(nodes), { deepObserve: true });
+    this.charMap = signalify(
+      typeof options.charMap === "string" ? TreeUnicodeCharacters[options.charMap] : options.charMap,
+      { deepObserve: true },
+    );
+    this.selectedNode = signalify(options.selectedNode);
+    this.offsetRow = new Signal(0);
+    this.rows = new Signal<TreeRow<Data>[]>([]);
+
+    this.#watchedNodes = new Map();
+    this.#updateRows();
+
+    this.nodes.subscribe(() => this.#updateRows());
+    this.charMap.subscribe(() => this.#updateRows());
+    this.selectedNode.subscribe(() => this.#scrollToSelectedNode());
+
+    this.rectangle.subscribe(() => {
+      const rows = this.drawnObjects.labels?.length;
+      if (rows === undefined || rows === this.rectangle.peek().height) return;
+      this.draw();
+    });
+
+    this.on("keyPress", ({ key, ctrl, meta, shift }) => {
+      if (ctrl || meta || shift) return;
+
+      const rows = this.rows.peek();
+      const node = this.selectedNode.peek();
+      const index = rows.findIndex((row) => row.node === node);
+      const { height } = this.rectangle.peek();
+
+      switch (key) {
+        case "up":
+          this.#selectRow(index - 1);
+          break;
+        case "down":
+          this.#selectRow(index + 1);
+          break;
+        case "pageup":
+          this.#selectRow(index - height);
+          break;
+        case "pagedown":
+          this.#selectRow(index + height);
+          break;
+        case "home":
+          this.#selectRow(0);
+          break;
+        case "end":
+          this.#selectRow(rows.length - 1);
+          break;
+        case "right":
+          if (!node) break;
+          if (!node.expanded.peek() && node.expandable) {
+            this.#expand(node);
+          } else if (node.expanded.peek() && node.children.peek()?.length) {
+            this.#selectRow(index + 1);
+          }
+          break;
+        case "left":
+          if (!node) break;
+          if (node.expanded.peek() && node.expandable) {
+            node.collapse();
+          } else if (node.parent) {
+            this.selectedNode.value = node.parent;
+          }
+          break;
+        case "return":
+          if (node?.expandable) this.#toggle(node);
+          break;
+      }
+    });
+
+    this.on("mousePress", ({ x, y, drag, release, ctrl, meta, shift }) => {
+      if (drag || release || ctrl || meta || shift) return;
+
+      const { column, row } = this.rectangle.peek();
+      const clickedRow = this.rows.peek()[y - row + this.offsetRow.peek()];
+      if (!clickedRow) return;
+
+      const { node, guide } = clickedRow;
+      const markerColumn = column + textWidth(guide) - 2;
+
+      if ((x === markerColumn || node === this.selectedNode.peek()) && node.expandable) {
+        this.#toggle(node);
+      }
+
+      this.selectedNode.value = node;
+    });
+
+    this.on("mouseScroll", ({ scroll }) => {
+      this.#scrollTo(this.offsetRow.peek() + scroll);
+    });
+  }
+
+  draw(): void {
+    super.draw();
+
+    const { drawnObjects } = this;
+    drawnObjects.guides = [];
+    drawnObjects.labels = [];
+
+    const { canvas } = this.tui;
+    const { height } = this.rectangle.peek();
+
+    const guidesStyle = new Computed(() => this.theme.guides[this.state.value]);
+
+    for (let i = 0; i < height; ++i) {
+      const row = new Computed(() => this.rows.value[i + this.offsetRow.value]);
+
+      const guideRectangle = { column: 0, row: 0 };
+      const guide = new TextObject({
+        canvas,
+        view: this.view,
+        zIndex: this.zIndex,
+        style: guidesStyle,
+        value: new Computed(() => cropToWidth(row.value?.guide ?? "", this.rectangle.value.width)),
+        rectangle: new Computed(() => {
+          const { column, row } = this.rectangle.value;
+          guideRectangle.column = column;
+          guideRectangle.row = row + i;
+          return guideRectangle;
+        }),
+      });
+
+      const labelRectangle = { column: 0, row: 0 };
+      const label = new TextObject({
+        canvas,
+        view: this.view,
+        zIndex: this.zIndex,
+        style: new Computed(() => {
+          const state = this.state.value;
+          const node = row.value?.node;
+          return node && node === this.selectedNode.value ? this.theme.selectedNode[state] : this.theme[state];
+        }),
+        value: new Computed(() => {
+          const { width } = this.rectangle.value;
+          const { guide, node } = row.value ?? { guide: "", node: undefined };
+          const labelWidth = Math.max(width - textWidth(guide), 0);
+          const label = cropToWidth(node?.label.value ?? "", labelWidth);
+          return label + " ".repeat(Math.max(labelWidth - textWidth(label), 0));
+        }),
+        rectangle: new Computed(() => {
+          const { column, row: rowIndex, width } = this.rectangle.value;
+          labelRectangle.column = column + Math.min(textWidth(row.value?.guide ?? ""), width);
+          labelRectangle.row = rowIndex + i;
+          return labelRectangle;
+        }),
+      });
+
+      drawnObjects.guides.push(guide);
+      drawnObjects.labels.push(label);
+
+      guide.draw();
+      label.draw();
+    }
+  }
+
+  interact(method: "mouse" | "keyboard"): void {
+    const interactionInterval = Date.now() - this.lastInteraction.time;
+
+    this.state.value = this.state.peek() === "focused" && (interactionInterval < 500 || method === "keyboard")
+      ? "active"
+      : "focused";
+
+    super.interact(method);
+  }
+
+  destroy(): void {
+    for (const unwatch of this.#watchedNodes.values()) unwatch();
+    this.#watchedNodes.clear();
+    super.destroy();
+  }
+
+  /** Flatten expanded nodes into `rows` */
+  #updateRows(): void {
+    const { branch, lastBranch, horizontal, vertical, expanded, collapsed, loading, leaf } = this.charMap.peek();
+    const rows: TreeRow<Data>[] = [];
+    const visitedNodes = new Set<TreeNode<Data>>();
+
+    const flatten = (nodes: TreeNode<Data>[], parent: TreeNode<Data> | undefined, depth: number, indent: string) => {
+      for (const [i, node] of nodes.entries()) {
+        node.parent = parent;
+        visitedNodes.add(node);
+        this.#watchNode(node);
+
+        const last = i === nodes.length - 1;
+
+        let guide = indent;
+        if (depth > 0) guide += (last ? lastBranch : branch) + horizontal;
+
+        if (node.loading.peek()) guide += loading;
+        else if (!node.expandable) guide += leaf;
+        else guide += node.expanded.peek() ? expanded : collapsed;
+
+        rows.push({ node, depth, guide: guide + " " });
+
+        const children = node.children.peek();
+        if (!children || !node.expanded.peek()) continue;
+
+        const childIndent = depth > 0 ? indent + (last ? "  " : vertical + " ") : indent;
+        flatten(children, node, depth + 1, childIndent);
+      }
+    };
+
+    flatten(this.nodes.peek(), undefined, 0, "");
+    this.#unwatchNodes(visitedNodes);
+    this.rows.value = rows;
+
+    // Selected node might've been hidden by collapsing one of its ancestors
+    let selectedNode = this.selectedNode.peek();
+    while (selectedNode && !rows.some((row) => row.node === selectedNode)) {
+      selectedNode = selectedNode.parent;
+    }
+
+    if (selectedNode !== this.selectedNode.peek()) {
+      this.selectedNode.value = selectedNode;
+    } else {
+      this.#scrollTo(this.offsetRow.peek());
+    }
+  }
+
+  /** Dependency tracking happens only once, so changes of nodes added later have to be subscribed to manually */
+  #watchNode(node: TreeNode<Data>): void {
+    if (this.#watchedNodes.has(node)) return;
+
+    const updateRows = () => this.#updateRows();
+    const signals = [node.label, node.expanded, node.loading, node.children];
+    for (const signal of signals) signal.subscribe(updateRows);
+
+    this.#watchedNodes.set(node, () => {
+      for (const signal of signals) signal.unsubscribe(updateRows);
+    });
+  }
+
+  /**
+   * Stop watching nodes which aren't displayed anymore, they get watched again once they get displayed
+   *
+   * Nodes which got removed from their parent get detached from it.
+   */
+  #unwatchNodes(displayedNodes: Set<TreeNode<Data>>): void {
+    for (const [node, unwatch] of this.#watchedNodes) {
+      if (displayedNodes.has(node)) continue;
+
+      unwatch();
+      this.#watchedNodes.delete(node);
+      if (!node.parent?.children.peek()?.includes(node)) node.parent = undefined;
+    }
+  }
+
+  // Node collapses back when loading its children fails, there's nothing else to do with the error here
+  #expand(node: TreeNode<Data>): void {
+    node.expand().catch(() => {});
+  }
+
+  #toggle(node: TreeNode<Data>): void {
+    node.toggle().catch(() => {});
+  }
+
+  #selectRow(index: number): void {
+    const rows = this.rows.peek();
+    if (!rows.length) return;
+    this.selectedNode.value = rows[clamp(index, 0, rows.length - 1)].node;
+  }
+
+  #scrollTo(offsetRow: number): void {
+    const maxOffsetRow = Math.max(this.rows.peek().length - this.rectangle.peek().height, 0);
+    this.offsetRow.value = clamp(offsetRow, 0, maxOffsetRow);
+  }
+
+  #scrollToSelectedNode(): void {
+    const index = this.rows.peek().findIndex((row) => row.node === this.selectedNode.peek());
+    if (index === -1) return;
+
+    const { height } = this.rectangle.peek();
+    const offsetRow = this.offsetRow.peek();
+
+    if (index < offsetRow) this.#scrollTo(index);
+    else if (index >= offsetRow + height) this.#scrollTo(index - height + 1);
+  }
+}
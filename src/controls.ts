@@ -1,34 +1,49 @@
 // Copyright 2023 Im-Beast. MIT license.
 import { Component } from "./component.ts";
 import { Tui } from "./tui.ts";
-import { DISABLE_MOUSE, ENABLE_MOUSE } from "./utils/ansi_codes.ts";
-import { getComponentClosestToTopLeftCorner, isInteractable } from "./utils/component.ts";
-import { fitsInRectangle } from "./utils/numbers.ts";
+import type { MouseEvent } from "./input_reader/types.ts";
+import { DISABLE_MOUSE, DISABLE_MOUSE_MOVEMENT, ENABLE_MOUSE, ENABLE_MOUSE_MOVEMENT } from "./utils/ansi_codes.ts";
+import { getComponentAt, getComponentClosestToTopLeftCorner } from "./utils/component.ts";
 
 const textEncoder = new TextEncoder();
 
-let lastSelectedComponent: Component;
-
 /**
  * Enable handling of controlling Tui using keyboard
+ *
+ *  - Tab/Shift+Tab cycles focus in the order defined by components' `tabIndex`
+ *  - Ctrl+Arrow moves focus to the closest component in given direction
+ *  - Return interacts with focused component
+ *
+ * Keys captured by focused component (see `Component.capturesKey`) are left for it to handle.
  */
 export function handleKeyboardControls(tui: Tui): void {
-  tui.on("keyPress", ({ key, ctrl, shift, meta }) => {
+  const { focusManager } = tui;
+
+  tui.on("keyPress", (keyPress) => {
+    if (keyPress.release || focusManager.focused.peek()?.capturesKey(keyPress)) return;
+
+    const { key, ctrl, shift, meta } = keyPress;
+    if (key === "tab" && !ctrl && !meta) {
+      if (shift) focusManager.focusPrevious();
+      else focusManager.focusNext();
+      return;
+    }
+
     if ((!ctrl && key !== "return") || shift || meta) return;
 
-    lastSelectedComponent ??= getComponentClosestToTopLeftCorner(
+    const focusedComponent = focusManager.focused.peek() ?? getComponentClosestToTopLeftCorner(
       tui,
-      (object) => isInteractable(object) && object.visible.peek(),
+      (object) => focusManager.isFocusable(object),
     );
 
-    if (!lastSelectedComponent) return;
+    if (!focusedComponent) return;
 
     let vectorX = 0;
     let vectorY = 0;
 
     switch (key) {
       case "return":
-        lastSelectedComponent.interact("keyboard");
+        focusedComponent.interact("keyboard");
         return;
       case "up":
         --vectorY;
@@ -46,18 +61,13 @@ export function handleKeyboardControls(tui: Tui): void {
         return;
     }
 
-    const lastRectangle = lastSelectedComponent.rectangle.peek();
+    const lastRectangle = focusedComponent.rectangle.peek();
 
     let bestCandidate: Component | undefined = undefined;
     let bestCandidateDistance;
 
     for (const component of tui.components) {
-      if (
-        component === lastSelectedComponent ||
-        !component.visible ||
-        component.subComponentOf ||
-        !isInteractable(component)
-      ) {
+      if (component === focusedComponent || !focusManager.isFocusable(component)) {
         continue;
       }
 
@@ -81,7 +91,8 @@ export function handleKeyboardControls(tui: Tui): void {
 
       if (
         !bestCandidateDistance || distance < bestCandidateDistance ||
-        (bestCandidate && distance <= bestCandidateDistance && component.zIndex > bestCandidate.zIndex)
+        (bestCandidate && distance <= bestCandidateDistance &&
+          component.zIndex.peek() > bestCandidate.zIndex.peek())
       ) {
         bestCandidate = component;
         bestCandidateDistance = distance;
@@ -90,64 +101,96 @@ export function handleKeyboardControls(tui: Tui): void {
 
     if (!bestCandidate) return;
 
-    bestCandidate.state.value = "focused";
-    lastSelectedComponent.state.value = "base";
-    lastSelectedComponent = bestCandidate;
+    focusManager.focus(bestCandidate);
   });
 }
 
+export interface MouseControlsOptions {
+  /**
+   * Whether to enable any-event tracking, in which pointer motion gets reported even without any button pressed,
+   * so components get hovered as soon as pointer moves over them, defaults to false
+   */
+  hover?: boolean;
+}
+
 /**
  * Enable handling of controlling Tui using mouse
+ *
+ *  - Clicking focuses and interacts with the top-most focusable component under the pointer
+ *  - Top-most visible component under the pointer gets hovered (see `Component.hovered`),
+ *    it receives `mouseEnter` and `mouseLeave` events when that changes
  */
-export function handleMouseControls(tui: Tui): void {
-  const { rid } = tui.stdout;
-  Deno.writeSync(rid, textEncoder.encode(ENABLE_MOUSE));
+export function handleMouseControls(tui: Tui, options: MouseControlsOptions = {}): void {
+  const { stdout, focusManager } = tui;
+  const hover = options.hover ?? false;
+
+  stdout.writeSync(textEncoder.encode(ENABLE_MOUSE + (hover ? ENABLE_MOUSE_MOVEMENT : "")));
   tui.on("destroy", () => {
-    Deno.writeSync(rid, textEncoder.encode(DISABLE_MOUSE));
+    stdout.writeSync(textEncoder.encode(DISABLE_MOUSE + (hover ? DISABLE_MOUSE_MOVEMENT : "")));
   });
 
-  tui.on("mousePress", ({ x, y, drag, shift, meta, ctrl, release }) => {
-    lastSelectedComponent ??= getComponentClosestToTopLeftCorner(
-      tui,
-      (object) => isInteractable(object) && object.visible.peek(),
-    );
+  let hovered: Component | undefined;
+  let lastMouseEvent: MouseEvent;
 
-    if (!lastSelectedComponent || shift || meta || ctrl || drag) return;
+  /** Stop hovering current component, destroyed one doesn't get `mouseLeave` since its listeners are gone */
+  const leave = (destroyed = false) => {
+    const component = hovered;
+    if (!component) return;
 
-    let bestCandidate: Component | undefined = undefined;
-    for (const component of tui.components) {
-      if (
-        !component.visible.peek() ||
-        component.subComponentOf ||
-        !isInteractable(component) ||
-        !fitsInRectangle(x, y, component.rectangle.peek())
-      ) {
-        continue;
-      }
+    hovered = undefined;
+    component.hovered.value = false;
+    component.visible.unsubscribe(hideHovered);
+    if (destroyed) return;
 
-      if (!bestCandidate) {
-        bestCandidate = component;
-        continue;
-      }
+    component.off("destroy", destroyHovered);
+    component.emit("mouseLeave", lastMouseEvent);
+  };
+
+  // Hidden or destroyed component would otherwise stay hovered until pointer moves
+  const hideHovered = (visible: boolean) => {
+    if (!visible) leave();
+  };
+  const destroyHovered = () => leave(true);
+
+  tui.on("mouseEvent", (mouseEvent) => {
+    lastMouseEvent = mouseEvent;
 
-      if (bestCandidate.zIndex.peek() > component.zIndex.peek()) continue;
+    // Subcomponents are parts of other components, so they don't get hovered by themselves
+    const component = getComponentAt(
+      tui,
+      mouseEvent.x,
+      mouseEvent.y,
+      (component) => !component.subComponentOf && component.visible.peek(),
+    );
+    if (component === hovered) return;
 
-      bestCandidate = component;
+    leave();
+
+    hovered = component;
+    if (component) {
+      component.hovered.value = true;
+      component.visible.subscribe(hideHovered);
+      component.on("destroy", destroyHovered);
+      component.emit("mouseEnter", mouseEvent);
     }
+  });
+
+  tui.on("mousePress", ({ x, y, drag, shift, meta, ctrl, release }) => {
+    if (shift || meta || ctrl || drag) return;
+
+    const bestCandidate = getComponentAt(tui, x, y, (component) => focusManager.isFocusable(component));
 
     if (!bestCandidate) {
-      lastSelectedComponent.state.value = "base";
+      // Clicking outside of focus scope shouldn't let focus escape it
+      if (!focusManager.scopes.length) focusManager.focus(undefined);
       return;
-    } else if (bestCandidate !== lastSelectedComponent) {
-      lastSelectedComponent.state.value = "base";
     }
 
     if (!release) {
+      focusManager.focus(bestCandidate);
       bestCandidate.interact("mouse");
     } else if (bestCandidate.state.peek() === "active") {
       bestCandidate.state.value = "base";
     }
-
-    lastSelectedComponent = bestCandidate;
   });
 }
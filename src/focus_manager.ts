@@ -0,0 +1,151 @@
+// Copyright 2023 Im-Beast. MIT license.
+import type { Tui } from "./tui.ts";
+import type { Component } from "./component.ts";
+import { Signal } from "./signals/mod.ts";
+import { isDescendantOf, isInteractable } from "./utils/component.ts";
+
+/** Container which traps focus, along with component that had focus before it got opened */
+export interface FocusScope {
+  container: Component;
+  restoreFocus?: Component;
+}
+
+/**
+ * Keeps track of component which currently has keyboard focus within a single Tui.
+ *
+ * Focus order follows `tabIndex` just like in browsers:
+ *  - Components with positive `tabIndex` come first, in ascending order
+ *  - Components with `tabIndex` equal to 0 follow in the order they were added to Tui
+ *  - Components with negative `tabIndex` can be focused, but get skipped while cycling focus
+ *
+ * When focus scope is active (see `ComponentOptions.focusScope`) only its container and its descendants can get focused.
+ */
+export class FocusManager {
+  tui: Tui;
+  focused: Signal<Component | undefined>;
+  /** Stack of active focus scopes, the last one traps focus */
+  scopes: FocusScope[];
+
+  constructor(tui: Tui) {
+    this.tui = tui;
+    this.focused = new Signal<Component | undefined>(undefined);
+    this.scopes = [];
+  }
+
+  /** Returns whether {component} can receive focus */
+  isFocusable(component: Component): boolean {
+    return !component.subComponentOf &&
+      component.visible.peek() &&
+      component.state.peek() !== "disabled" &&
+      isInteractable(component) &&
+      this.isInScope(component);
+  }
+
+  /** Returns whether {component} is the container of currently active focus scope or one of its descendants */
+  isInScope(component: Component): boolean {
+    const scope = this.scopes.at(-1);
+    return !scope || isDescendantOf(component, scope.container);
+  }
+
+  /**
+   * Trap focus inside {container}
+   *
+   * If focused component isn't inside of the {container} focus moves to the first focusable component in it.
+   */
+  pushScope(container: Component): void {
+    const { scopes } = this;
+    if (scopes.some((scope) => scope.container === container)) return;
+
+    const focused = this.focused.peek();
+    scopes.push({ container, restoreFocus: focused });
+
+    if (focused && this.isInScope(focused)) return;
+    this.focus(this.focusOrder()[0]);
+  }
+
+  /**
+   * Release focus trapped by {container}
+   *
+   * If it was the active scope, focus goes back to the component which held it before the scope got pushed.
+   */
+  popScope(container: Component): void {
+    const { scopes } = this;
+    const index = scopes.findIndex((scope) => scope.container === container);
+    if (index === -1) return;
+
+    const [{ restoreFocus }] = scopes.splice(index, 1);
+    if (index !== scopes.length) return;
+
+    if (restoreFocus && this.tui.components.has(restoreFocus) && this.isFocusable(restoreFocus)) {
+      this.focus(restoreFocus);
+    } else {
+      this.focus(undefined);
+    }
+  }
+
+  /** Returns components which can be cycled through using `focusNext` and `focusPrevious` in their focus order */
+  focusOrder(): Component[] {
+    const focusable: Component[] = [];
+
+    for (const component of this.tui.components) {
+      if (component.tabIndex.peek() >= 0 && this.isFocusable(component)) {
+        focusable.push(component);
+      }
+    }
+
+    // Array.prototype.sort is stable, so components with the same tabIndex keep their order
+    return focusable.sort((a, b) => {
+      const tabIndexA = a.tabIndex.peek() || Infinity;
+      const tabIndexB = b.tabIndex.peek() || Infinity;
+      return tabIndexA === tabIndexB ? 0 : tabIndexA < tabIndexB ? -1 : 1;
+    });
+  }
+
+  /**
+   * Move focus to {component}, emits `blur` on previously focused component and `focus` on the new one.
+   *
+   * Passing `undefined` removes focus from currently focused component.
+   */
+  focus(component: Component | undefined): void {
+    const previous = this.focused.peek();
+    if (previous === component) return;
+
+    this.focused.value = component;
+
+    if (previous) {
+      if (previous.state.peek() !== "disabled") {
+        previous.state.value = "base";
+      }
+      previous.emit("blur", previous);
+    }
+
+    if (component) {
+      if (component.state.peek() === "base") {
+        component.state.value = "focused";
+      }
+      component.emit("focus", component);
+    }
+  }
+
+  /** Focus next component in focus order, wraps around after the last one */
+  focusNext(): void {
+    this.#cycle(1);
+  }
+
+  /** Focus previous component in focus order, wraps around after the first one */
+  focusPrevious(): void {
+    this.#cycle(-1);
+  }
+
+  #cycle(direction: 1 | -1): void {
+    const order = this.focusOrder();
+    if (!order.length) return;
+
+    const index = order.indexOf(this.focused.peek()!);
+    const nextIndex = index === -1
+      ? (direction === 1 ? 0 : order.length - 1)
+      : (index + direction + order.length) % order.length;
+
+    this.focus(order[nextIndex]);
+  }
+}
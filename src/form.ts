@@ -0,0 +1,244 @@
+// Copyright 2023 Im-Beast. MIT license.
+import type { Tui } from "./tui.ts";
+import type { Component } from "./component.ts";
+import { EmitterEvent, EventEmitter } from "./event_emitter.ts";
+import { Signal } from "./signals/mod.ts";
+
+import { CheckBox } from "./components/checkbox.ts";
+import { ComboBox } from "./components/combobox.ts";
+import { Input } from "./components/input.ts";
+import { RadioGroup } from "./components/radio_group.ts";
+import { Slider } from "./components/slider.ts";
+import { TextBox } from "./components/textbox.ts";
+
+export type FormEventMap = {
+  submit: EmitterEvent<[Record<string, unknown>]>;
+  reset: EmitterEvent<[]>;
+};
+
+export interface FormOptions {
+  tui: Tui;
+  /** `tabIndex` of the first field, following fields get increasing ones, defaults to 1 */
+  tabIndex?: number;
+}
+
+/** Signals which hold values of components known to the form, see `componentValue()` */
+type FieldValueSignal = Signal<string> | Signal<boolean> | Signal<number> | Signal<number | undefined>;
+
+/** Field registered within a form along with signal holding its value */
+interface FormField {
+  component: Component;
+  value: Signal<unknown>;
+  initialValue: unknown;
+  unsubscribe: () => void;
+}
+
+/** Returns signal which holds value of {component}, or `undefined` if it isn't known */
+function componentValue(component: Component): FieldValueSignal | undefined {
+  if (component instanceof Input || component instanceof TextBox) return component.text;
+  if (component instanceof CheckBox) return component.checked;
+  if (component instanceof ComboBox) return component.selectedItem;
+  if (component instanceof Slider) return component.value;
+  if (component instanceof RadioGroup) return component.selected;
+  return undefined;
+}
+
+/** Moves cursor of {component} back within its text, which might've gotten shorter */
+function clampCursor(component: Component): void {
+  if (component instanceof Input) {
+    component.cursorPosition.value = Math.min(component.cursorPosition.peek(), component.text.peek().length);
+  } else if (component instanceof TextBox) {
+    const lines = component.text.peek().split("\n");
+    const { x, y } = component.cursorPosition.peek();
+    const row = Math.min(y, lines.length - 1);
+    component.selectionStart.value = undefined;
+    component.cursorPosition.value = { x: Math.min(x, lines[row].length), y: row };
+  }
+}
+
+/** Returns `valid` and `error` signals of {component}, if it has them */
+function fieldValidity(component: Component): { valid?: Signal<unknown>; error?: Signal<unknown> } {
+  const { valid, error } = component as Partial<Record<"valid" | "error", unknown>>;
+  return {
+    valid: valid instanceof Signal ? valid : undefined,
+    error: error instanceof Signal ? error : undefined,
+  };
+}
+
+/**
+ * Groups components into named fields and manages their submission
+ *
+ * Value of each field is kept within `values`, they're synchronized both ways.
+ * Fields which have `valid` and `error` signals (like `Input` with `validate` set) affect `valid` and `errors`.
+ *
+ * While one of the fields is focused:
+ *  - Return submits the form when focused field is an `Input`
+ *  - Escape resets every field to the value it had when it got added
+ *
+ * Fields get `tabIndex` assigned in the order they were added, so focus moves between them in that order.
+ *
+ * @example
+ * ```ts
+ * const form = new Form({ tui });
+ * form.addField("name", new Input({ ... }));
+ * form.addField("newsletter", new CheckBox({ ... }));
+ * form.addField("age", new Slider({ ... }));
+ *
+ * form.on("submit", (values) => {
+ *   console.log(values); // { name: "Jane", newsletter: true, age: 30 }
+ * });
+ * ```
+ */
+export class Form extends EventEmitter<FormEventMap> {
+  #fields: Map<string, FormField>;
+  /** `tabIndex` which next added field gets, it only grows so fields keep the order they were added in */
+  #nextTabIndex: number;
+  #offKeyPress: () => void;
+
+  tui: Tui;
+  tabIndex: number;
+  values: Signal<Record<string, unknown>>;
+  /** Error messages of invalid fields by their names */
+  errors: Signal<Record<string, string>>;
+  valid: Signal<boolean>;
+
+  constructor(options: FormOptions) {
+    super();
+
+    this.tui = options.tui;
+    this.tabIndex = options.tabIndex ?? 1;
+    this.#nextTabIndex = this.tabIndex;
+    this.#fields = new Map();
+
+    this.values = new Signal<Record<string, unknown>>({}, { deepObserve: true, watchObjectIndex: true });
+    this.errors = new Signal({});
+    this.valid = new Signal(true);
+
+    this.values.subscribe((values) => {
+      for (const [name, field] of this.#fields) {
+        if (name in values) field.value.value = values[name];
+      }
+    });
+
+    this.#offKeyPress = this.tui.on("keyPress", (keyPress) => {
+      const { key, ctrl, meta, shift, release } = keyPress;
+      if (ctrl || meta || shift || release || (key !== "return" && key !== "escape")) return;
+
+      const focused = this.tui.focusManager.focused.peek();
+      if (!focused || !this.fieldName(focused) || focused.capturesKey(keyPress)) return;
+
+      if (key === "escape") this.reset();
+      else if (focused instanceof Input) this.submit();
+    });
+  }
+
+  /** Returns names of registered fields in the order they were added */
+  get fieldNames(): string[] {
+    return [...this.#fields.keys()];
+  }
+
+  /** Returns name under which {component} is registered or `undefined` if it isn't a field of this form */
+  fieldName(component: Component): string | undefined {
+    for (const [name, field] of this.#fields) {
+      if (field.component === component) return name;
+    }
+    return undefined;
+  }
+
+  /**
+   * Register {component} as a field called {name}
+   *
+   * {value} is a signal which holds value of the field,
+   * it defaults to `text` of `Input` and `TextBox`, `checked` of `CheckBox`, `selectedItem` of `ComboBox`, `value` of `Slider` and `selected` of `RadioGroup`.
+   */
+  addField<T extends Component, V>(name: string, component: T, valueSignal?: Signal<V>): T {
+    // Form only writes back values which it has read from the signal, so it's safe to treat it as `Signal<unknown>`
+    const value = (valueSignal ?? componentValue(component)) as Signal<unknown> | undefined;
+    if (!value) throw new Error(`Value signal has to be specified for field "${name}"`);
+    if (this.#fields.has(name)) this.removeField(name);
+
+    component.tabIndex.value = this.#nextTabIndex++;
+
+    const subscription = (fieldValue: unknown) => {
+      this.values.peek()[name] = fieldValue;
+    };
+    value.subscribe(subscription);
+
+    const { valid, error } = fieldValidity(component);
+    const updateValidity = () => this.#updateValidity();
+    valid?.subscribe(updateValidity);
+    error?.subscribe(updateValidity);
+
+    this.#fields.set(name, {
+      component,
+      value,
+      initialValue: value.peek(),
+      unsubscribe: () => {
+        value.unsubscribe(subscription);
+        valid?.unsubscribe(updateValidity);
+        error?.unsubscribe(updateValidity);
+      },
+    });
+
+    this.values.peek()[name] = value.peek();
+    this.#updateValidity();
+    return component;
+  }
+
+  /** Unregister field called {name}, its component stays untouched */
+  removeField(name: string): void {
+    const field = this.#fields.get(name);
+    if (!field) return;
+
+    field.unsubscribe();
+    this.#fields.delete(name);
+    delete this.values.peek()[name];
+    this.#updateValidity();
+  }
+
+  /**
+   * Emit `submit` event with current values
+   *
+   * Form doesn't get submitted while any of its fields is invalid, returns whether it got submitted.
+   */
+  submit(): boolean {
+    if (!this.valid.peek()) return false;
+    this.emit("submit", { ...this.values.peek() });
+    return true;
+  }
+
+  /** Set every field back to the value it had when it got added and emit `reset` event */
+  reset(): void {
+    for (const field of this.#fields.values()) {
+      field.value.value = field.initialValue;
+      clampCursor(field.component);
+    }
+    this.emit("reset");
+  }
+
+  /** Unregister all fields and stop handling keyboard */
+  destroy(): void {
+    this.#offKeyPress();
+    for (const name of this.fieldNames) {
+      this.removeField(name);
+    }
+    this.off();
+  }
+
+  #updateValidity(): void {
+    const errors: Record<string, string> = {};
+    let valid = true;
+
+    for (const [name, { component }] of this.#fields) {
+      const validity = fieldValidity(component);
+      if (!validity.valid || validity.valid.peek()) continue;
+
+      valid = false;
+      const error = validity.error?.peek();
+      errors[name] = typeof error === "string" ? error : "";
+    }
+
+    this.errors.value = errors;
+    this.valid.value = valid;
+  }
+}
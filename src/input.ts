@@ -1,8 +1,73 @@
 // Copyright 2023 Im-Beast. MIT license.
 import { Tui } from "./tui.ts";
 import { emitInputEvents } from "./input_reader/mod.ts";
+import {
+  DISABLE_BRACKETED_PASTE,
+  DISABLE_KITTY_KEYBOARD,
+  DISABLE_MODIFY_OTHER_KEYS,
+  ENABLE_BRACKETED_PASTE,
+  ENABLE_KITTY_KEYBOARD,
+  ENABLE_MODIFY_OTHER_KEYS,
+} from "./utils/ansi_codes.ts";
 
-/** Emit input events to Tui  */
-export async function handleInput(tui: Tui): Promise<void> {
-  await emitInputEvents(tui.stdin, tui, tui.refreshRate);
+const textEncoder = new TextEncoder();
+
+/**
+ * Keyboard protocol which terminal gets asked to use
+ *  - "legacy" – traditional sequences, some key combinations (e.g. Ctrl+Shift+A) can't be told apart
+ *  - "kitty" – kitty progressive keyboard enhancement, reports every modifier as well as key repeats and releases
+ *  - "modifyOtherKeys" – xterm's modifyOtherKeys mode 2, reports modifiers of keys which normally don't have them
+ */
+export type KeyboardProtocol = "legacy" | "kitty" | "modifyOtherKeys";
+
+export interface HandleInputOptions {
+  /**
+   * Keyboard protocol which terminal gets asked to use, defaults to "legacy"
+   *
+   * Terminals which don't support it keep sending legacy sequences, which still get decoded.
+   */
+  keyboardProtocol?: KeyboardProtocol;
+  /**
+   * How long (in milliseconds) to wait for the rest of escape sequence before emitting what has been read, defaults to 50
+   *
+   * Lone ESC gets emitted as escape key only after that time passes.
+   */
+  escapeTimeout?: number;
+}
+
+/** Escape codes which enable and disable given keyboard protocol */
+const keyboardProtocolCodes: Record<KeyboardProtocol, [enable: string, disable: string]> = {
+  legacy: ["", ""],
+  kitty: [ENABLE_KITTY_KEYBOARD, DISABLE_KITTY_KEYBOARD],
+  modifyOtherKeys: [ENABLE_MODIFY_OTHER_KEYS, DISABLE_MODIFY_OTHER_KEYS],
+};
+
+/**
+ * Emit input events to Tui
+ *
+ * It enables bracketed paste mode, so pasted text gets emitted as a single `paste` event.
+ *
+ * With `keyboardProtocol` set to "kitty" key releases get emitted as `keyPress` events with `release` set,
+ * components and controls don't react to them.
+ *
+ * Stdin is read in raw mode, so Ctrl+C doesn't raise SIGINT and pressing it emits `destroy` event instead,
+ * unless focused component captures it (see `Component.capturesKey`), e.g. TextBox uses it to copy text.
+ */
+export async function handleInput(tui: Tui, options: HandleInputOptions = {}): Promise<void> {
+  const { stdout } = tui;
+  const [enableKeyboard, disableKeyboard] = keyboardProtocolCodes[options.keyboardProtocol ?? "legacy"];
+
+  stdout.writeSync(textEncoder.encode(ENABLE_BRACKETED_PASTE + enableKeyboard));
+  tui.on("destroy", () => {
+    stdout.writeSync(textEncoder.encode(DISABLE_BRACKETED_PASTE + disableKeyboard));
+  });
+
+  tui.on("keyPress", (keyPress) => {
+    const { key, ctrl, meta, release } = keyPress;
+    if (key !== "c" || !ctrl || meta || release) return;
+    if (tui.focusManager.focused.peek()?.capturesKey(keyPress)) return;
+    tui.emit("destroy");
+  });
+
+  await emitInputEvents(tui.stdin, tui, tui.refreshRate, options.escapeTimeout);
 }
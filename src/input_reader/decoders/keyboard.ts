@@ -10,22 +10,208 @@ const keyPress: KeyPressEvent = {
   meta: false,
   ctrl: false,
   shift: false,
+  alt: false,
+  super: false,
+  repeat: false,
+  release: false,
 };
 
+/** Keys of CSI and SS3 sequences by their final character, e.g. `\x1b[A` or `\x1b[1;5A` */
+const finalCharacterKeys: Record<string, Key> = {
+  A: "up",
+  B: "down",
+  C: "right",
+  D: "left",
+  E: "clear",
+  F: "end",
+  H: "home",
+  P: "f1",
+  Q: "f2",
+  R: "f3",
+  S: "f4",
+  Z: "tab",
+};
+
+/** Keypad keys of SS3 sequences sent in application keypad mode by their final character */
+const keypadKeys: Record<string, Key> = {
+  M: "kpenter",
+  X: "kpequal",
+  j: "kpmultiply",
+  k: "kpadd",
+  l: "kpseparator",
+  m: "kpsubtract",
+  n: "kpdecimal",
+  o: "kpdivide",
+  p: "kp0",
+  q: "kp1",
+  r: "kp2",
+  s: "kp3",
+  t: "kp4",
+  u: "kp5",
+  v: "kp6",
+  w: "kp7",
+  x: "kp8",
+  y: "kp9",
+};
+
+/** Keys of sequences ending with `~` by their first parameter, e.g. `\x1b[3~` or `\x1b[3;5~` */
+const tildeKeys: Record<string, Key> = {
+  1: "home",
+  2: "insert",
+  3: "delete",
+  4: "end",
+  5: "pageup",
+  6: "pagedown",
+  7: "home",
+  8: "end",
+  11: "f1",
+  12: "f2",
+  13: "f3",
+  14: "f4",
+  15: "f5",
+  17: "f6",
+  18: "f7",
+  19: "f8",
+  20: "f9",
+  21: "f10",
+  23: "f11",
+  24: "f12",
+  25: "f13",
+  26: "f14",
+  28: "f15",
+  29: "f16",
+  31: "f17",
+  32: "f18",
+  33: "f19",
+  34: "f20",
+};
+
+/** Keys which kitty keyboard protocol reports using codepoints from Unicode Private Use Area */
+const kittyFunctionalKeys: Record<number, Key> = {
+  57414: "kpenter",
+  57415: "kpequal",
+  57416: "kpseparator",
+  57417: "kpleft",
+  57418: "kpright",
+  57419: "kpup",
+  57420: "kpdown",
+  57421: "kppageup",
+  57422: "kppagedown",
+  57423: "kphome",
+  57424: "kpend",
+  57425: "kpinsert",
+  57426: "kpdelete",
+  57427: "kpbegin",
+};
+
+for (let i = 0; i <= 22; ++i) {
+  kittyFunctionalKeys[57376 + i] = `f${13 + i}` as Key;
+}
+
+for (let i = 0; i <= 9; ++i) {
+  kittyFunctionalKeys[57399 + i] = `kp${i}` as Key;
+}
+
+const keypadOperators = ["kpdecimal", "kpdivide", "kpmultiply", "kpsubtract", "kpadd"] as const;
+for (let i = 0; i < keypadOperators.length; ++i) {
+  kittyFunctionalKeys[57409 + i] = keypadOperators[i];
+}
+
+/** Returns key which has given {codepoint} in kitty keyboard protocol and xterm's modifyOtherKeys mode */
+function codepointKey(codepoint: number): Key | undefined {
+  switch (codepoint) {
+    case 8:
+    case 127:
+      return "backspace";
+    case 9:
+      return "tab";
+    case 13:
+      return "return";
+    case 27:
+      return "escape";
+    case 32:
+      return "space";
+  }
+
+  if (codepoint in kittyFunctionalKeys) return kittyFunctionalKeys[codepoint];
+  return codepoint > 32 && codepoint <= 0x10ffff ? String.fromCodePoint(codepoint) as Key : undefined;
+}
+
+/**
+ * Decode CSI or SS3 {code} to {keyPress}, returns whether it succeeded
+ *
+ * Supported forms:
+ *  - legacy sequences, optionally with modifiers – `\x1b[A`, `\x1b[1;6A`, `\x1bOP`, `\x1b[15;5~`
+ *  - kitty keyboard protocol – `\x1b[97;5u`, `\x1b[97;1:3u` (with event type)
+ *  - xterm's modifyOtherKeys – `\x1b[27;5;97~`
+ *
+ * Modifiers are encoded as `1 + bitmask` (shift – 1, alt – 2, ctrl – 4, super – 8, hyper – 16, meta – 32),
+ * event type is 1 for press, 2 for repeat and 3 for release.
+ */
+function decodeSequence(code: string): boolean {
+  if (code[0] !== "\x1b") return false;
+  const match = code.slice(1).match(/^([[O])([\d:;]*)([\x40-\x7e])$/);
+  if (!match) return false;
+
+  const [, introducer, rawParameters, finalCharacter] = match;
+  const parameters = rawParameters.split(";").map((parameter) => parameter.split(":"));
+
+  let key: Key | undefined;
+  // Some terminals send SS3 sequences with modifiers as their only parameter, e.g. `\x1bO5P`
+  let [modifiers, eventType] = introducer === "O" ? parameters[0] : parameters[1] ?? [];
+
+  if (finalCharacter === "u" && introducer === "[") {
+    key = codepointKey(+parameters[0][0]);
+  } else if (finalCharacter === "~" && introducer === "[") {
+    if (parameters[0][0] === "27") {
+      key = codepointKey(+parameters[2]?.[0]);
+    } else {
+      key = tildeKeys[parameters[0][0]];
+    }
+  } else {
+    key = (introducer === "O" ? keypadKeys[finalCharacter] : undefined) ?? finalCharacterKeys[finalCharacter];
+    if (finalCharacter === "Z") modifiers ||= "2";
+  }
+
+  if (!key) return false;
+  keyPress.key = key;
+
+  const modifierMask = Math.max(+(modifiers || 1) - 1, 0);
+  keyPress.shift = !!(modifierMask & 1);
+  keyPress.alt = !!(modifierMask & 2);
+  keyPress.ctrl = !!(modifierMask & 4);
+  keyPress.super = !!(modifierMask & 8);
+  keyPress.meta = keyPress.alt || !!(modifierMask & 32);
+
+  keyPress.repeat = eventType === "2";
+  keyPress.release = eventType === "3";
+
+  return true;
+}
+
 /**
  * Decode {buffer} and/or {code} to {KeyPressEvent} object
  *
+ * Besides legacy sequences it decodes ones sent in kitty keyboard protocol and xterm's modifyOtherKeys mode.
+ *
  * **Don't hold onto event object reference that gets returned!**
  *
  * **It gets reused to save CPU usage and minimize GC.**
  */
 export function decodeKey(buffer: Uint8Array, code: string): KeyPressEvent {
-  if (code[0] === "\x1b") code = code.slice(1);
   keyPress.buffer = buffer;
-  keyPress.key = code as Key;
   keyPress.ctrl = false;
   keyPress.meta = false;
   keyPress.shift = false;
+  keyPress.alt = false;
+  keyPress.super = false;
+  keyPress.repeat = false;
+  keyPress.release = false;
+
+  if (decodeSequence(code)) return keyPress;
+
+  if (code[0] === "\x1b") code = code.slice(1);
+  keyPress.key = code as Key;
 
   switch (code) {
     case "\r":
@@ -58,106 +244,10 @@ export function decodeKey(buffer: Uint8Array, code: string): KeyPressEvent {
 
         if (code.length === 1) {
           keyPress.shift = code !== code.toLowerCase();
-          keyPress.meta = buffer[0] === 27;
+          keyPress.meta = keyPress.alt = buffer[0] === 27;
           break;
         } else if (buffer.length === 1) {
           keyPress.key = "escape";
-          break;
-        }
-
-        const modifier = code.match(/\d+.+(\d+)/)?.[1] ?? "";
-        switch (modifier) {
-          case "5":
-            keyPress.ctrl = true;
-            break;
-          case "3":
-            keyPress.meta = true;
-            break;
-          case "2":
-            keyPress.shift = true;
-            break;
-        }
-
-        code = code.replace(`1;${modifier}`, "").replace(`;${modifier}`, "").replace("1;", "");
-        switch (code) {
-          case "OP":
-          case "[P":
-            keyPress.key = "f1";
-            break;
-          case "OG":
-          case "[Q":
-            keyPress.key = "f2";
-            break;
-          case "OR":
-          case "[R":
-            keyPress.key = "f3";
-            break;
-          case "OS":
-          case "[S":
-            keyPress.key = "f4";
-            break;
-          case "[15~":
-            keyPress.key = "f5";
-            break;
-          case "[17~":
-            keyPress.key = "f6";
-            break;
-          case "[18~":
-            keyPress.key = "f7";
-            break;
-          case "[19~":
-            keyPress.key = "f8";
-            break;
-          case "[20~":
-            keyPress.key = "f9";
-            break;
-          case "[21~":
-            keyPress.key = "f10";
-            break;
-          case "[23~":
-            keyPress.key = "f11";
-            break;
-          case "[24~":
-            keyPress.key = "f12";
-            break;
-
-          case "[A":
-            keyPress.key = "up";
-            break;
-          case "[B":
-            keyPress.key = "down";
-            break;
-          case "[C":
-            keyPress.key = "right";
-            break;
-          case "[D":
-            keyPress.key = "left";
-            break;
-
-          case "[2~":
-            keyPress.key = "insert";
-            break;
-          case "[3~":
-            keyPress.key = "delete";
-            break;
-
-          case "[5~":
-            keyPress.key = "pageup";
-            break;
-          case "[6~":
-            keyPress.key = "pagedown";
-            break;
-
-          case "[H":
-            keyPress.key = "home";
-            break;
-          case "[F":
-            keyPress.key = "end";
-            break;
-
-          case "[E":
-            keyPress.key = "clear";
-            break;
         }
       }
       break;
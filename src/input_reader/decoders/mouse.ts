@@ -18,6 +18,8 @@ let lastMouseEvent: MouseEvent = { ...mouseEvent };
  * Decode SGR mouse mode code sequence to {MouseEvent} object.
  * If it can't convert specified {code} to {MouseEvent} it returns undefined.
  *
+ * Pointer motion without any button pressed gets returned as plain {MouseEvent}.
+ *
  * **Don't hold onto event object reference that gets returned!**
  *
  * **It gets reused to save CPU usage and minimize GC.**
@@ -25,7 +27,7 @@ let lastMouseEvent: MouseEvent = { ...mouseEvent };
 export function decodeMouseSGR(
   buffer: Uint8Array,
   code: string,
-): MousePressEvent | MouseScrollEvent | undefined {
+): MouseEvent | MousePressEvent | MouseScrollEvent | undefined {
   const action = code.at(-1);
   if (!code.startsWith("\x1b[<") || (action !== "m" && action !== "M")) {
     return undefined;
@@ -75,6 +77,9 @@ export function decodeMouseSGR(
     modifiers -= 4;
   }
 
+  // Motion with no button pressed, reported in any-event tracking mode
+  const move = drag && modifiers === 3;
+
   let button: MousePressEvent["button"];
   if (!scroll) {
     button = modifiers as MousePressEvent["button"];
@@ -100,7 +105,9 @@ export function decodeMouseSGR(
   mouseEvent.movementX = movementX;
   mouseEvent.movementY = movementY;
 
-  if (scroll) {
+  if (move) {
+    return mouseEvent;
+  } else if (scroll) {
     const mouseScrollEvent = mouseEvent as MouseScrollEvent;
     mouseScrollEvent.scroll = scroll;
     return mouseScrollEvent;
@@ -117,6 +124,8 @@ export function decodeMouseSGR(
  * Decode VT and UTF8 mouse mode code sequence to {MouseEvent} object.
  * If it can't convert specified {code} to {MouseEvent} it returns undefined.
  *
+ * Pointer motion without any button pressed gets returned as plain {MouseEvent}.
+ *
  * **Don't hold onto event object reference that gets returned!**
  *
  * **It gets reused to save CPU usage and minimize GC.**
@@ -124,7 +133,7 @@ export function decodeMouseSGR(
 export function decodeMouseVT_UTF8(
   buffer: Uint8Array,
   code: string,
-): MousePressEvent | MouseScrollEvent | undefined {
+): MouseEvent | MousePressEvent | MouseScrollEvent | undefined {
   if (!code.startsWith("\x1b[M")) return undefined;
 
   const modifiers = code.charCodeAt(3);
@@ -153,6 +162,8 @@ export function decodeMouseVT_UTF8(
   const scroll = button && !!(modifiers & 32) && !!(modifiers & 64) ? (modifiers & 3 ? 1 : -1) : 0;
   if (scroll) button = undefined;
   const drag = !scroll && !!(modifiers & 64);
+  // Motion with no button pressed, reported in any-event tracking mode
+  const move = drag && buttonInfo === 3;
 
   lastMouseEvent = mouseEvent;
   const previous = lastMouseEvent;
@@ -174,7 +185,9 @@ export function decodeMouseVT_UTF8(
   mouseEvent.movementX = movementX;
   mouseEvent.movementY = movementY;
 
-  if (scroll) {
+  if (move) {
+    return mouseEvent;
+  } else if (scroll) {
     const mouseScrollEvent = mouseEvent as MouseScrollEvent;
     mouseScrollEvent.scroll = scroll;
     return mouseScrollEvent;
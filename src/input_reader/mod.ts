@@ -1,61 +1,98 @@
 // Copyright 2023 Im-Beast. MIT license.
 
-import type { KeyPressEvent, MouseEvent, MousePressEvent, MouseScrollEvent } from "./types.ts";
+import type {
+  KeyPressEvent,
+  MouseEvent,
+  MousePressEvent,
+  MouseScrollEvent,
+  PasteEvent,
+  TextInputEvent,
+} from "./types.ts";
 import type { Stdin } from "../types.ts";
 import { decodeMouseSGR, decodeMouseVT_UTF8 } from "./decoders/mouse.ts";
 import { decodeKey } from "./decoders/keyboard.ts";
 import type { EmitterEvent, EventEmitter } from "../event_emitter.ts";
+import { sleep } from "../utils/async.ts";
+import { InputParser } from "./parser.ts";
+
+export * from "./parser.ts";
 
 export type InputEventRecord = {
   keyPress: EmitterEvent<[KeyPressEvent]>;
   mouseEvent: EmitterEvent<[MouseEvent | MousePressEvent | MouseScrollEvent]>;
   mousePress: EmitterEvent<[MousePressEvent]>;
   mouseScroll: EmitterEvent<[MouseScrollEvent]>;
+  /** Pointer moved without any button pressed, it gets reported only with any-event tracking enabled */
+  mouseMove: EmitterEvent<[MouseEvent]>;
+  paste: EmitterEvent<[PasteEvent]>;
+  textInput: EmitterEvent<[TextInputEvent]>;
 };
 
+const textDecoder = new TextDecoder();
+
+/** Returns whether {promise} settles within {time} milliseconds */
+function settlesWithin(promise: Promise<unknown>, time: number): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    const timeout = setTimeout(() => resolve(false), time);
+    const settle = () => {
+      clearTimeout(timeout);
+      resolve(true);
+    };
+    promise.then(settle, settle);
+  });
+}
+
 /**
  * Read keypresses from given stdin, parse them and emit to given emitter.
+ *
+ * Reading stops and returned promise resolves once stdin reaches EOF (`read()` resolves to `null`).
+ *
+ * Stdin gets set to raw mode, so keys like Ctrl+C and Ctrl+Z get emitted as key presses instead of raising signals.
+ *
+ * Input gets parsed using `InputParser`, so sequences may be split between reads.
+ * Text wrapped in bracketed paste sequences gets emitted as a single `paste` event, even when it spans multiple reads.
+ *
+ * When escape sequence doesn't get finished within {escapeTimeout} milliseconds it gets emitted as it is,
+ * that's how lone ESC gets told apart from the beginning of a sequence.
  */
 export async function emitInputEvents(
   stdin: Stdin,
   emitter: EventEmitter<InputEventRecord>,
   minReadInterval = 1000 / 60,
+  escapeTimeout = 50,
 ) {
   try {
-    stdin.setRaw(true, { cbreak: Deno.build.os !== "windows" });
+    stdin.setRaw(true);
   } catch {
     // omit
   }
 
-  const maxbuffer = new Uint8Array(1024);
-  async function read() {
-    const size = await stdin.read(maxbuffer);
-    const buffer = maxbuffer.subarray(0, size ?? 0);
+  const parser = new InputParser(emitter);
 
-    for (const event of decodeBuffer(buffer)) {
-      if (event.key === "mouse") {
-        emitter.emit("mouseEvent", event);
+  const maxbuffer = new Uint8Array(1024);
+  while (true) {
+    const read = stdin.read(maxbuffer);
+    if (parser.pending && !await settlesWithin(read, escapeTimeout)) {
+      parser.flush();
+    }
 
-        if ("button" in event) {
-          emitter.emit("mousePress", event);
-        } else if ("scroll" in event) {
-          emitter.emit("mouseScroll", event);
-        }
-      } else {
-        emitter.emit("keyPress", event);
-      }
+    const size = await read;
+    if (size === null) {
+      parser.flush();
+      return;
     }
 
-    setTimeout(read, minReadInterval);
+    parser.feed(maxbuffer.subarray(0, size));
+
+    await sleep(minReadInterval);
   }
-  await read();
 }
 
-const textDecoder = new TextDecoder();
-
 /**
  * Decode character(s) from buffer that was sent to stdin from terminal on mostly
  * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.txt for reference used to create this function
+ *
+ * It assumes {buffer} contains only whole sequences, use `InputParser` when input comes in multiple reads.
  */
 export function* decodeBuffer(
   buffer: Uint8Array,
@@ -0,0 +1,240 @@
+// Copyright 2023 Im-Beast. MIT license.
+import type { KeyPressEvent, MouseEvent, MousePressEvent, MouseScrollEvent } from "./types.ts";
+import type { InputEventRecord } from "./mod.ts";
+import type { EventEmitter } from "../event_emitter.ts";
+import { decodeMouseSGR, decodeMouseVT_UTF8 } from "./decoders/mouse.ts";
+import { decodeKey } from "./decoders/keyboard.ts";
+
+const textEncoder = new TextEncoder();
+
+/** Sequences which pasted text gets wrapped with in bracketed paste mode */
+const PASTE_START = "\x1b[200~";
+const PASTE_END = "\x1b[201~";
+
+const CONTROL_CHARACTER = /\p{Cc}/u;
+
+/**
+ * State of the parser
+ *  - "ground" – no sequence is being read
+ *  - "escape" – ESC has been read
+ *  - "csi" – ESC [ has been read, parameters and final character follow
+ *  - "ss3" – ESC O has been read, final character follows
+ *  - "mouse" – ESC [ M has been read, three characters describing mouse event follow
+ *  - "paste" – pasted text is being read until bracketed paste end sequence
+ */
+export type InputParserState = "ground" | "escape" | "csi" | "ss3" | "mouse" | "paste";
+
+/**
+ * Incremental parser of terminal input, which keeps state between reads
+ *
+ * Sequences may be split between any number of `feed()` calls, including multibyte characters.
+ * ESC followed by a character gets emitted as that character with `meta` set (Alt + key).
+ *
+ * Printable text gets emitted as `textInput` event, once per read and normalized to its composed form.
+ * Only printable ASCII characters get emitted as key presses as well, since other characters aren't keys.
+ *
+ * Lone ESC can't be told apart from the beginning of a sequence until more input arrives,
+ * so while `pending` is true caller should call `flush()` once it waits long enough for the rest of it.
+ *
+ * @example
+ * ```ts
+ * const parser = new InputParser(tui);
+ * parser.feed(new TextEncoder().encode("\x1b[1;5")); // nothing gets emitted yet
+ * parser.feed(new TextEncoder().encode("Aa\x1b")); // emits ctrl + up and "a"
+ * parser.flush(); // emits escape
+ * ```
+ */
+export class InputParser {
+  emitter: EventEmitter<InputEventRecord>;
+
+  #state: InputParserState;
+  /** Characters of sequence (or pasted text) which hasn't been finished yet */
+  #sequence: string;
+  /** Printable text which has been read since the last control character or sequence */
+  #text: string;
+  #textDecoder: TextDecoder;
+
+  constructor(emitter: EventEmitter<InputEventRecord>) {
+    this.emitter = emitter;
+    this.#state = "ground";
+    this.#sequence = "";
+    this.#text = "";
+    this.#textDecoder = new TextDecoder();
+  }
+
+  get state(): InputParserState {
+    return this.#state;
+  }
+
+  /** Whether escape sequence has been started but not finished yet, pasted text doesn't count */
+  get pending(): boolean {
+    return this.#state !== "ground" && this.#state !== "paste";
+  }
+
+  /** Parse {buffer} and emit events for every input that it finishes */
+  feed(buffer: Uint8Array): void {
+    for (const char of this.#textDecoder.decode(buffer, { stream: true })) {
+      this.#parse(char);
+    }
+    this.#emitText();
+  }
+
+  /**
+   * Emit input that hasn't been finished yet as it is and reset parser
+   *
+   *  - Lone ESC gets emitted as escape key
+   *  - ESC followed by a single character gets emitted as that character with `meta` set
+   *  - Unfinished pasted text gets emitted as `paste` event
+   *  - Any other unfinished sequence gets discarded
+   */
+  flush(): void {
+    for (const char of this.#textDecoder.decode()) {
+      this.#parse(char);
+    }
+    this.#emitText();
+    this.#flushSequence();
+  }
+
+  /** Emit unfinished sequence as it is, see `flush()` */
+  #flushSequence(): void {
+    const sequence = this.#sequence;
+    const state = this.#state;
+    this.#reset();
+
+    if (state === "paste") {
+      this.emitter.emit("paste", { text: sequence });
+    } else if (sequence === "\x1b") {
+      this.#emitSequence(sequence);
+    } else if (sequence.length === 2) {
+      this.#emitKey(sequence[1], true);
+    }
+  }
+
+  #reset(): void {
+    this.#state = "ground";
+    this.#sequence = "";
+  }
+
+  #parse(char: string): void {
+    switch (this.#state) {
+      case "ground":
+        if (!CONTROL_CHARACTER.test(char)) {
+          this.#text += char;
+          if (char < "\x7f") this.#emitKey(char);
+          break;
+        }
+
+        this.#emitText();
+        if (char === "\x1b") {
+          this.#state = "escape";
+          this.#sequence = char;
+        } else {
+          this.#emitKey(char);
+        }
+        break;
+      case "escape":
+        if (char === "[") {
+          this.#state = "csi";
+          this.#sequence += char;
+        } else if (char === "O") {
+          this.#state = "ss3";
+          this.#sequence += char;
+        } else if (char === "\x1b") {
+          // Previous ESC wasn't followed by anything, so it was a lone ESC
+          this.#emitSequence(this.#sequence);
+        } else {
+          this.#reset();
+          this.#emitKey(char, true);
+        }
+        break;
+      case "csi":
+      case "ss3": {
+        if (this.#state === "csi" && this.#sequence === "\x1b[" && char === "M") {
+          this.#state = "mouse";
+          this.#sequence += char;
+          break;
+        }
+
+        const code = char.charCodeAt(0);
+        if (code >= 0x20 && code <= 0x3f) {
+          // Parameter and intermediate characters
+          this.#sequence += char;
+        } else if (code >= 0x40 && code <= 0x7e) {
+          // Final character
+          const sequence = this.#sequence + char;
+          this.#reset();
+
+          if (sequence === PASTE_START) {
+            this.#state = "paste";
+          } else {
+            this.#emitSequence(sequence);
+          }
+        } else {
+          // Character which can't be a part of the sequence interrupts it
+          this.#flushSequence();
+          this.#parse(char);
+        }
+        break;
+      }
+      case "mouse": {
+        const sequence = this.#sequence += char;
+        // ESC [ M followed by button and coordinates
+        if ([...sequence].length === 6) {
+          this.#reset();
+          this.#emitSequence(sequence);
+        }
+        break;
+      }
+      case "paste":
+        this.#sequence += char;
+        if (this.#sequence.endsWith(PASTE_END)) {
+          const text = this.#sequence.slice(0, -PASTE_END.length);
+          this.#reset();
+          this.emitter.emit("paste", { text });
+        }
+        break;
+    }
+  }
+
+  /** Emit text which has been read as `textInput` event */
+  #emitText(): void {
+    if (!this.#text) return;
+    const text = this.#text.normalize("NFC");
+    this.#text = "";
+    this.emitter.emit("textInput", { text });
+  }
+
+  /** Emit {char} as a key press, with `meta` set when it has been preceded by ESC ({alt}) */
+  #emitKey(char: string, alt = false): void {
+    const keyPress = decodeKey(textEncoder.encode(char), char);
+    if (alt) {
+      keyPress.buffer = textEncoder.encode(`\x1b${char}`);
+      keyPress.meta = keyPress.alt = true;
+    }
+    this.#emit(keyPress);
+  }
+
+  /** Decode finished escape {sequence} and emit it */
+  #emitSequence(sequence: string): void {
+    const buffer = textEncoder.encode(sequence);
+    this.#emit(decodeMouseVT_UTF8(buffer, sequence) ?? decodeMouseSGR(buffer, sequence) ?? decodeKey(buffer, sequence));
+  }
+
+  #emit(event: KeyPressEvent | MouseEvent | MousePressEvent | MouseScrollEvent): void {
+    const { emitter } = this;
+
+    if (event.key === "mouse") {
+      emitter.emit("mouseEvent", event);
+
+      if ("button" in event) {
+        emitter.emit("mousePress", event);
+      } else if ("scroll" in event) {
+        emitter.emit("mouseScroll", event);
+      } else {
+        emitter.emit("mouseMove", event);
+      }
+    } else {
+      emitter.emit("keyPress", event);
+    }
+  }
+}
@@ -1,15 +1,42 @@
 // Copyright 2023 Im-Beast. MIT license.
 import { Range } from "../types.ts";
 
-/** Interface defining key press issued to stdin */
+/**
+ * Interface defining key press issued to stdin
+ *
+ * `super`, `repeat` and `release` can be reported only when terminal uses kitty keyboard protocol,
+ * `alt` and `super` along with other modifiers also when it uses xterm's modifyOtherKeys mode.
+ */
 export interface KeyPressEvent {
   key: Key;
+  /** Whether Alt or Meta modifier was held, kept for compatibility */
   meta: boolean;
   ctrl: boolean;
   shift: boolean;
+  alt: boolean;
+  super: boolean;
+  /** Whether key is being held down and this event got issued by auto-repeat */
+  repeat: boolean;
+  /** Whether key got released */
+  release: boolean;
   buffer: Uint8Array;
 }
 
+/**
+ * Interface defining printable text typed in, including characters which aren't keys (e.g. "ż", "日本" or emojis)
+ *
+ * Text typed in within a single read gets emitted at once, so grapheme clusters typed together stay together.
+ * It's normalized to its composed form (NFC).
+ */
+export interface TextInputEvent {
+  text: string;
+}
+
+/** Interface defining text pasted while bracketed paste mode is enabled */
+export interface PasteEvent {
+  text: string;
+}
+
 /** Interface defining any mouse event issued to stdin */
 export interface MouseEvent {
   key: "mouse";
@@ -45,8 +72,9 @@ export type Key =
   | Alphabet
   | Chars
   | SpecialKeys
+  | KeypadKeys
   | `${Range<0, 10>}`
-  | `f${Range<1, 12>}`;
+  | `f${Range<1, 35>}`;
 
 /** Type defining letters from the latin alphabet */
 export type Alphabet =
@@ -97,6 +125,29 @@ export type SpecialKeys =
   | "end"
   | "tab";
 
+/** Type defining keys on numeric keypad, which can be told apart in application keypad mode or kitty keyboard protocol */
+export type KeypadKeys =
+  | `kp${Range<0, 9>}`
+  | "kpdecimal"
+  | "kpdivide"
+  | "kpmultiply"
+  | "kpsubtract"
+  | "kpadd"
+  | "kpenter"
+  | "kpequal"
+  | "kpseparator"
+  | "kpleft"
+  | "kpright"
+  | "kpup"
+  | "kpdown"
+  | "kppageup"
+  | "kppagedown"
+  | "kphome"
+  | "kpend"
+  | "kpinsert"
+  | "kpdelete"
+  | "kpbegin";
+
 /** Type defining interpunction characters */
 export type Chars =
   | "!"
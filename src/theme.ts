@@ -19,10 +19,14 @@ export function hierarchizeTheme(input: Partial<Theme> = {}): Theme {
   input.disabled ??= input.base;
   input.focused ??= input.base;
   input.active ??= input.focused;
+  input.hovered ??= input.base;
 
   const output = input as Theme & Record<string, Theme>;
   for (const key in output) {
-    if (key === "base" || key === "focused" || key === "active" || key === "disabled" || output === output[key]) {
+    if (
+      key === "base" || key === "focused" || key === "active" || key === "disabled" || key === "hovered" ||
+      output === output[key]
+    ) {
       continue;
     }
     output[key] = hierarchizeTheme(output[key]);
@@ -41,4 +45,6 @@ export interface Theme {
   active: Style;
   /** Style when component is disabled */
   disabled: Style;
+  /** Style when mouse pointer is over component which isn't focused, active or disabled */
+  hovered: Style;
 }
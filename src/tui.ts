@@ -2,10 +2,11 @@
 import { BoxObject, Canvas } from "./canvas/mod.ts";
 import { Component } from "./component.ts";
 import { EmitterEvent, EventEmitter } from "./event_emitter.ts";
+import { FocusManager } from "./focus_manager.ts";
 import { InputEventRecord } from "./input_reader/mod.ts";
-import { Computed, Signal } from "./signals/mod.ts";
+import { Computed, Signal, SignalOfObject } from "./signals/mod.ts";
 import { Style } from "./theme.ts";
-import { Rectangle, Stdin, Stdout } from "./types.ts";
+import { ConsoleSize, Rectangle, Stdin, Stdout } from "./types.ts";
 import { HIDE_CURSOR, SHOW_CURSOR, USE_PRIMARY_BUFFER, USE_SECONDARY_BUFFER } from "./utils/ansi_codes.ts";
 
 const textEncoder = new TextEncoder();
@@ -16,6 +17,12 @@ export interface TuiOptions {
   stdout?: Stdout;
   canvas?: Canvas;
   refreshRate?: number;
+  /**
+   * Size of the Tui, when set it won't get updated when terminal gets resized.
+   *
+   * Set it when rendering to non-terminal output, e.g. `VirtualTerminal.size`.
+   */
+  size?: ConsoleSize | SignalOfObject<ConsoleSize>;
 }
 
 /**
@@ -33,6 +40,18 @@ export interface TuiOptions {
  * tui.dispatch();
  * tui.run();
  * ```
+ *
+ * To run Tui headlessly (e.g. in tests) pass `VirtualTerminal` as its stdin, stdout and size source:
+ * @example
+ * ```ts
+ * const terminal = new VirtualTerminal();
+ *
+ * const tui = new Tui({
+ *   stdin: terminal,
+ *   stdout: terminal,
+ *   size: terminal.size,
+ * });
+ * ```
  */
 export class Tui extends EventEmitter<
   {
@@ -47,6 +66,7 @@ export class Tui extends EventEmitter<
   children: Component[];
   components: Set<Component>;
   drawnObjects: { background?: BoxObject };
+  focusManager: FocusManager;
   refreshRate: number;
 
   #nextUpdateTimeout?: number;
@@ -58,7 +78,7 @@ export class Tui extends EventEmitter<
     this.refreshRate = options.refreshRate ?? 1000 / 60;
     this.canvas = options.canvas ?? new Canvas({
       stdout: this.stdout,
-      size: Deno.consoleSize(),
+      size: options.size ?? Deno.consoleSize(),
     });
 
     this.style = options.style;
@@ -66,6 +86,7 @@ export class Tui extends EventEmitter<
     this.drawnObjects = {};
     this.components = new Set();
     this.children = [];
+    this.focusManager = new FocusManager(this);
 
     const tuiRectangle = { column: 0, row: 0, width: 0, height: 0 };
     this.rectangle = new Computed(() => {
@@ -75,6 +96,9 @@ export class Tui extends EventEmitter<
       return tuiRectangle;
     });
 
+    // Size is controlled by whoever provided it
+    if (options.size) return;
+
     const updateCanvasSize = () => {
       const { canvas } = this;
       const { columns, rows } = Deno.consoleSize();
@@ -123,7 +147,7 @@ export class Tui extends EventEmitter<
       box.draw();
     }
 
-    Deno.writeSync(stdout.rid, textEncoder.encode(USE_SECONDARY_BUFFER + HIDE_CURSOR));
+    stdout.writeSync(textEncoder.encode(USE_SECONDARY_BUFFER + HIDE_CURSOR));
 
     const updateStep = () => {
       canvas.render();
@@ -141,7 +165,7 @@ export class Tui extends EventEmitter<
       this.stdin.setRaw(false);
     } catch { /**/ }
 
-    Deno.writeSync(this.stdout.rid, textEncoder.encode(USE_PRIMARY_BUFFER + SHOW_CURSOR));
+    this.stdout.writeSync(textEncoder.encode(USE_PRIMARY_BUFFER + SHOW_CURSOR));
 
     for (const component of this.components) {
       component.destroy();
@@ -155,10 +179,6 @@ export class Tui extends EventEmitter<
 
     if (Deno.build.os === "windows") {
       Deno.addSignalListener("SIGBREAK", destroyDispatcher);
-
-      this.on("keyPress", ({ key, ctrl }) => {
-        if (ctrl && key === "c") destroyDispatcher();
-      });
     } else {
       Deno.addSignalListener("SIGTERM", destroyDispatcher);
     }
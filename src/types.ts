@@ -1,10 +1,23 @@
 // Copyright 2023 Im-Beast. MIT license.
 
-/** Type for Standard Output – where data gets written */
-export type Stdout = typeof Deno.stdout;
+/**
+ * Type for Standard Output – where data gets written
+ *
+ * Both `Deno.stdout` and `VirtualTerminal` satisfy it.
+ */
+export interface Stdout {
+  writeSync(data: Uint8Array): number;
+}
 
-/** Type for Standard Input - from where data is read */
-export type Stdin = typeof Deno.stdin;
+/**
+ * Type for Standard Input - from where data is read
+ *
+ * Both `Deno.stdin` and `VirtualTerminal` satisfy it.
+ */
+export interface Stdin {
+  read(buffer: Uint8Array): Promise<number | null>;
+  setRaw(mode: boolean, options?: Deno.SetRawOptions): void;
+}
 
 /** Type defining terminal's (console) available size measured in columns and rows */
 export type ConsoleSize = ReturnType<typeof Deno.consoleSize>;
@@ -11,6 +11,34 @@ export const ENABLE_MOUSE = "\x1b[?1000h\x1b[?1002h\x1b[?1005h\x1b[?1006h";
 /** ANSI escape code to disable mouse handling */
 export const DISABLE_MOUSE = "\x1b[?1000l\x1b[?1002l\x1b[?1005l\x1b[?1006l";
 
+/** ANSI escape code to enable any-event mouse tracking, in which pointer motion gets reported even without any button pressed */
+export const ENABLE_MOUSE_MOVEMENT = "\x1b[?1003h";
+
+/** ANSI escape code to disable any-event mouse tracking */
+export const DISABLE_MOUSE_MOVEMENT = "\x1b[?1003l";
+
+/** ANSI escape code to enable bracketed paste mode, in which pasted text gets wrapped with `\x1b[200~` and `\x1b[201~` */
+export const ENABLE_BRACKETED_PASTE = "\x1b[?2004h";
+
+/** ANSI escape code to disable bracketed paste mode */
+export const DISABLE_BRACKETED_PASTE = "\x1b[?2004l";
+
+/**
+ * ANSI escape code to enable kitty keyboard protocol, with escape codes disambiguated and event types reported
+ *
+ * It pushes flags onto terminal's stack, so they can be restored by `DISABLE_KITTY_KEYBOARD`.
+ */
+export const ENABLE_KITTY_KEYBOARD = "\x1b[>3u";
+
+/** ANSI escape code to disable kitty keyboard protocol, it pops flags pushed by `ENABLE_KITTY_KEYBOARD` */
+export const DISABLE_KITTY_KEYBOARD = "\x1b[<u";
+
+/** ANSI escape code to enable xterm's modifyOtherKeys mode 2, in which keys report modifiers they normally can't */
+export const ENABLE_MODIFY_OTHER_KEYS = "\x1b[>4;2m";
+
+/** ANSI escape code to disable xterm's modifyOtherKeys mode */
+export const DISABLE_MODIFY_OTHER_KEYS = "\x1b[>4;0m";
+
 /** ANSI escape code to hide terminal cursor  */
 export const HIDE_CURSOR = `\x1b[?25l`;
 
@@ -25,3 +53,16 @@ export const USE_SECONDARY_BUFFER = "\x1b[?1049h";
 
 /** ANSI escape code to tell terminal to switch back to primary buffer */
 export const USE_PRIMARY_BUFFER = "\x1b[?1049l";
+
+/**
+ * Get OSC 52 escape code for setting system clipboard to given {text}
+ *
+ * Terminal has to support OSC 52 and allow applications to use it.
+ */
+export function setClipboard(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return `\x1b]52;c;${btoa(binary)}\x07`;
+}
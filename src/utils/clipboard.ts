@@ -0,0 +1,23 @@
+// Copyright 2023 Im-Beast. MIT license.
+import type { Stdout } from "../types.ts";
+import { setClipboard } from "./ansi_codes.ts";
+
+const textEncoder = new TextEncoder();
+
+let clipboardText = "";
+
+/** Returns text which was last copied using `writeClipboard` */
+export function readClipboard(): string {
+  return clipboardText;
+}
+
+/**
+ * Copy {text} to the clipboard shared by all components
+ *
+ * When {stdout} is given, text also gets sent to the system clipboard using OSC 52.
+ * Terminals can't be reliably asked for system clipboard contents, so `readClipboard` returns only text copied within the app.
+ */
+export function writeClipboard(text: string, stdout?: Stdout): void {
+  clipboardText = text;
+  stdout?.writeSync(textEncoder.encode(setClipboard(text)));
+}
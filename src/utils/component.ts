@@ -2,6 +2,7 @@
 
 import { Tui } from "../tui.ts";
 import { Component } from "../component.ts";
+import { fitsInRectangle } from "./numbers.ts";
 
 /** Returns whether component defines `interact` property  */
 export function isInteractable(component: Component): boolean {
@@ -35,3 +36,41 @@ export function getComponentClosestToTopLeftCorner(tui: Tui, filterFn?: (compone
 
   return closestComponent;
 }
+
+/**
+ * Returns top-most component (the one with the highest `zIndex`) placed at given {x} and {y}
+ *
+ * Parts of components clipped by their view don't count.
+ */
+export function getComponentAt(
+  tui: Tui,
+  x: number,
+  y: number,
+  filterFn?: (component: Component) => boolean,
+): Component | undefined {
+  let topComponent: Component | undefined;
+
+  for (const component of tui.components) {
+    if ((filterFn && !filterFn(component)) || !fitsInRectangle(x, y, component.rectangle.peek())) {
+      continue;
+    }
+
+    const viewRectangle = component.view.peek()?.rectangle.peek();
+    if (viewRectangle && !fitsInRectangle(x, y, viewRectangle)) continue;
+
+    if (topComponent && topComponent.zIndex.peek() > component.zIndex.peek()) continue;
+    topComponent = component;
+  }
+
+  return topComponent;
+}
+
+/** Returns whether {component} is {ancestor} or one of its descendants (including subcomponents) */
+export function isDescendantOf(component: Component, ancestor: Component): boolean {
+  let current: Component | Tui = component;
+  while ("tui" in current) {
+    if (current === ancestor) return true;
+    current = current.subComponentOf ?? current.parent;
+  }
+  return false;
+}
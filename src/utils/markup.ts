@@ -0,0 +1,200 @@
+// Copyright 2023 Im-Beast. MIT license.
+import type { Style } from "../theme.ts";
+import { cropToWidth, getMultiCodePointCharacters, textWidth, wrapCharacters } from "./strings.ts";
+
+/** Part of text which has the same set of markup tags applied */
+export interface MarkupSpan {
+  text: string;
+  /** Style names applied to the span, from the outermost tag */
+  tags: string[];
+}
+
+const COLORS = ["black", "red", "green", "yellow", "blue", "magenta", "cyan", "white"];
+
+/** SGR codes for style names which can be used within markup tags */
+export const MARKUP_STYLE_CODES: Record<string, number> = {
+  bold: 1,
+  dim: 2,
+  italic: 3,
+  underline: 4,
+  blink: 5,
+  inverse: 7,
+  hidden: 8,
+  strikethrough: 9,
+};
+
+for (const [i, color] of COLORS.entries()) {
+  const capitalized = color[0].toUpperCase() + color.slice(1);
+  MARKUP_STYLE_CODES[color] = 30 + i;
+  MARKUP_STYLE_CODES[`light${capitalized}`] = 90 + i;
+  MARKUP_STYLE_CODES[`bg${capitalized}`] = 40 + i;
+  MARKUP_STYLE_CODES[`bgLight${capitalized}`] = 100 + i;
+}
+
+/**
+ * Parses {markup} into spans of text.
+ *
+ * `[bold red]` applies given styles until matching `[/]`, tags can be nested.
+ * Brackets which don't contain known style names are kept as they are, `\[` can be used to escape bracket.
+ *
+ * @example
+ * ```ts
+ * parseMarkup("[bold red]error[/] details");
+ * // [{ text: "error", tags: ["bold", "red"] }, { text: " details", tags: [] }]
+ * ```
+ */
+export function parseMarkup(markup: string): MarkupSpan[] {
+  const spans: MarkupSpan[] = [];
+  const stack: string[][] = [];
+
+  let text = "";
+  const pushSpan = () => {
+    if (!text) return;
+    spans.push({ text, tags: stack.flat() });
+    text = "";
+  };
+
+  for (let i = 0; i < markup.length; ++i) {
+    const char = markup[i];
+
+    if (char === "\\" && markup[i + 1] === "[") {
+      text += "[";
+      ++i;
+      continue;
+    } else if (char !== "[") {
+      text += char;
+      continue;
+    }
+
+    const end = markup.indexOf("]", i);
+    const tag = end === -1 ? "" : markup.slice(i + 1, end);
+
+    if (tag === "/") {
+      pushSpan();
+      stack.pop();
+      i = end;
+      continue;
+    }
+
+    const names = tag.trim().split(/\s+/);
+    if (!tag.trim() || !names.every((name) => Object.hasOwn(MARKUP_STYLE_CODES, name))) {
+      text += char;
+      continue;
+    }
+
+    pushSpan();
+    stack.push(names);
+    i = end;
+  }
+
+  pushSpan();
+  return spans;
+}
+
+/** Converts {spans} back to markup, each span gets its own tag */
+export function stringifyMarkup(spans: MarkupSpan[]): string {
+  let markup = "";
+  for (const { text, tags } of spans) {
+    const escaped = text.replaceAll("[", "\\[");
+    markup += tags.length ? `[${tags.join(" ")}]${escaped}[/]` : escaped;
+  }
+  return markup;
+}
+
+/** Returns {markup} with all tags removed */
+export function stripMarkup(markup: string): string {
+  return parseMarkup(markup).map(({ text }) => text).join("");
+}
+
+/** Returns width of {markup} text, not counting its tags */
+export function markupWidth(markup: string): number {
+  return textWidth(stripMarkup(markup));
+}
+
+/** Crops {markup} text to given {width}, keeping its tags */
+export function cropMarkupToWidth(markup: string, width: number): string {
+  const cropped: MarkupSpan[] = [];
+
+  for (const span of parseMarkup(markup)) {
+    if (width <= 0) break;
+
+    const text = cropToWidth(span.text, width);
+    width -= textWidth(text);
+    cropped.push({ text, tags: span.tags });
+  }
+
+  return stringifyMarkup(cropped);
+}
+
+/** Splits {markup} into lines, tags which span over multiple lines get applied to each one of them */
+export function splitMarkupLines(markup: string): string[] {
+  const lines: MarkupSpan[][] = [[]];
+
+  for (const { text, tags } of parseMarkup(markup)) {
+    for (const [i, part] of text.split("\n").entries()) {
+      if (i > 0) lines.push([]);
+      if (part) lines.at(-1)!.push({ text: part, tags });
+    }
+  }
+
+  return lines.map(stringifyMarkup);
+}
+
+/**
+ * Splits {markup} into lines no wider than {width}, breaking them between characters or, when {words} is true, at whitespace
+ *
+ * Existing line breaks are kept and tags get applied to each line they span over.
+ */
+export function wrapMarkup(markup: string, width: number, words = false, multiCodePointSupport = false): string[] {
+  const lines: string[] = [];
+
+  for (const line of splitMarkupLines(markup)) {
+    const chars: string[] = [];
+    const charTags: string[][] = [];
+    for (const { text, tags } of parseMarkup(line)) {
+      for (const char of multiCodePointSupport ? getMultiCodePointCharacters(text) : text) {
+        chars.push(char);
+        charTags.push(tags);
+      }
+    }
+
+    for (const [start, end] of wrapCharacters(chars, width, words)) {
+      const spans: MarkupSpan[] = [];
+      for (let i = start; i < end; ++i) {
+        const lastSpan = spans.at(-1);
+        if (lastSpan?.tags === charTags[i]) lastSpan.text += chars[i];
+        else spans.push({ text: chars[i], tags: charTags[i] });
+      }
+      lines.push(stringifyMarkup(spans));
+    }
+  }
+
+  return lines;
+}
+
+/** Crops {markup} text to given {width}, replacing its last character with {ellipsis} when it doesn't fit */
+export function ellipsizeMarkup(markup: string, width: number, ellipsis = "…"): string {
+  if (markupWidth(markup) <= width) return markup;
+  return cropMarkupToWidth(markup, width - textWidth(ellipsis)) + ellipsis.replaceAll("[", "\\[");
+}
+
+const markupStyles = new Map<string, Style>();
+
+/**
+ * Returns style which applies given markup {tags}.
+ *
+ * Styles are cached, so the same tags always return the same style.
+ */
+export function markupStyle(tags: string[]): Style | undefined {
+  if (!tags.length) return undefined;
+
+  const codes = tags.map((tag) => MARKUP_STYLE_CODES[tag]).join(";");
+
+  let style = markupStyles.get(codes);
+  if (!style) {
+    style = (text) => `\x1b[${codes}m${text}\x1b[0m`;
+    markupStyles.set(codes, style);
+  }
+
+  return style;
+}
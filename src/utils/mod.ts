@@ -1,8 +1,11 @@
 // Copyright 2023 Im-Beast. MIT license.
 export * from "./ansi_codes.ts";
 export * from "./async.ts";
+export * from "./clipboard.ts";
+export * from "./markup.ts";
 export * from "./numbers.ts";
 export * from "./sorted_array.ts";
 export * from "./strings.ts";
+export * from "./syntax.ts";
 export * from "./component.ts";
 export * from "./signals.ts";
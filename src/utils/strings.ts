@@ -181,7 +181,142 @@ export function characterWidth(character: string): number {
   return 1;
 }
 
+/**
+ * Returns ranges of {chars} which make up lines no wider than {width}
+ *
+ * When {words} is true, lines get broken at whitespace when possible and whitespace they got broken at is left out.
+ * Characters that don't fit within {width} on their own still get a line for themselves.
+ */
+export function wrapCharacters(chars: string[], width: number, words = false): [start: number, end: number][] {
+  const ranges: [number, number][] = [];
+
+  let start = 0;
+  let lineWidth = 0;
+  let lastSpace = -1;
+
+  for (let i = 0; i < chars.length; ++i) {
+    const char = chars[i];
+    const charWidth = textWidth(char);
+    const isSpace = words && /^\s+$/.test(char);
+
+    if (lineWidth + charWidth > width && i > start) {
+      if (isSpace) {
+        ranges.push([start, i]);
+        start = i + 1;
+        lineWidth = 0;
+        lastSpace = -1;
+        continue;
+      } else if (lastSpace > start) {
+        ranges.push([start, lastSpace]);
+        start = lastSpace + 1;
+        lineWidth = textWidth(chars.slice(start, i).join(""));
+        lastSpace = -1;
+      } else {
+        ranges.push([start, i]);
+        start = i;
+        lineWidth = 0;
+      }
+    }
+
+    if (isSpace) lastSpace = i;
+    lineWidth += charWidth;
+  }
+
+  ranges.push([start, chars.length]);
+  return ranges;
+}
+
+/**
+ * Splits {text} into lines no wider than {width}, breaking them between characters or, when {words} is true, at whitespace
+ *
+ * Existing line breaks are kept.
+ */
+export function wrapText(text: string, width: number, words = false, multiCodePointSupport = false): string[] {
+  const lines: string[] = [];
+
+  for (const line of text.split("\n")) {
+    const chars = multiCodePointSupport ? getMultiCodePointCharacters(line) : [...line];
+    for (const [start, end] of wrapCharacters(chars, width, words)) {
+      lines.push(chars.slice(start, end).join(""));
+    }
+  }
+
+  return lines;
+}
+
+/** Crops {text} to given {width}, replacing its last character with {ellipsis} when it doesn't fit */
+export function ellipsize(text: string, width: number, ellipsis = "…"): string {
+  if (textWidth(text) <= width) return text;
+  return cropToWidth(text, width - textWidth(ellipsis)) + ellipsis;
+}
+
 /** Returns capitalized string created from {text} */
 export function capitalize<T extends string>(text: T): Capitalize<T> {
   return (text[0].toUpperCase() + text.slice(1)) as Capitalize<T>;
 }
+
+/** Characters which can be used as slots in masks (see `applyMask`) along with characters they accept */
+export const MASK_SLOTS: Record<string, RegExp> = {
+  "9": /\d/,
+  "a": /\p{L}/u,
+  "*": /[\p{L}\d]/u,
+};
+
+/**
+ * Fits {text} into {mask}, characters which don't fit into it get left out
+ *
+ * Mask consists of slots – `9` (digit), `a` (letter) and `*` (letter or digit) – and literals, `\` escapes the next character.
+ * Literals get inserted automatically before the next character that fits.
+ * Typing a literal skips slots left before it, so groups can be shorter than the mask allows.
+ *
+ * @example
+ * ```ts
+ * applyMask("20240131", "9999-99-99"); // "2024-01-31"
+ * applyMask("10.0.0.1", "999.999.999.999"); // "10.0.0.1"
+ * applyMask("5551234", "(999) 999-9999"); // "(555) 123-4"
+ * ```
+ */
+export function applyMask(text: string, mask: string): string {
+  let masked = "";
+  let index = 0;
+
+  for (const char of text) {
+    const start = index;
+    let literals = "";
+
+    while (index < mask.length) {
+      const escaped = mask[index] === "\\";
+      const maskChar = escaped ? mask[index + 1] ?? "" : mask[index];
+      const slot = escaped ? undefined : MASK_SLOTS[maskChar];
+
+      if (!slot) {
+        literals += maskChar;
+        index += escaped ? 2 : 1;
+        if (char !== maskChar) continue;
+
+        masked += literals;
+        break;
+      }
+
+      if (slot.test(char)) {
+        masked += literals + char;
+        ++index;
+        break;
+      }
+
+      // Skip to the next literal if it's the typed character
+      let next = index;
+      while (next < mask.length && mask[next] !== "\\" && MASK_SLOTS[mask[next]]) ++next;
+      const nextChar = mask[next] === "\\" ? mask[next + 1] : mask[next];
+      if (next < mask.length && nextChar === char) {
+        index = next;
+        continue;
+      }
+
+      index = start;
+      break;
+    }
+  }
+
+  return masked;
+}
@@ -0,0 +1,179 @@
+// Copyright 2023 Im-Beast. MIT license.
+
+/** Part of line which is a single token, spans without `token` don't get highlighted */
+export interface SyntaxSpan {
+  text: string;
+  /** Name of the token, e.g. "string" or "comment" */
+  token?: string;
+}
+
+/** Line split into spans along with state which gets passed when tokenizing the next line */
+export interface TokenizedLine<State> {
+  spans: SyntaxSpan[];
+  state: State;
+}
+
+/**
+ * Function that splits {line} into spans of tokens
+ *
+ * {state} is the one returned for the previous line, it's `undefined` for the first line.
+ * States get compared using `===` to decide whether line needs to be tokenized again, so prefer primitives.
+ */
+export type Tokenizer<State = unknown> = (line: string, state: State | undefined) => TokenizedLine<State>;
+
+/** Push {text} to {spans}, merging it with the last span if it has the same {token} */
+function pushSpan(spans: SyntaxSpan[], text: string, token?: string): void {
+  if (!text) return;
+
+  const lastSpan = spans.at(-1);
+  if (lastSpan && lastSpan.token === token) lastSpan.text += text;
+  else spans.push({ text, token });
+}
+
+/**
+ * Tokenizer for JSON
+ *
+ * Tokens: `key`, `string`, `number`, `keyword` (`true`, `false` and `null`) and `punctuation`.
+ * State contains brackets which are still open, so keys are recognized within objects spanning multiple lines.
+ *
+ * @example
+ * ```ts
+ * jsonTokenizer(`{ "a": 1 }`, undefined);
+ * // { spans: [{ text: "{", token: "punctuation" }, { text: " " }, { text: `"a"`, token: "key" }, ...], state: "" }
+ * ```
+ */
+export const jsonTokenizer: Tokenizer<string> = (line, state = "") => {
+  const spans: SyntaxSpan[] = [];
+  let brackets = state;
+
+  for (let i = 0; i < line.length;) {
+    const char = line[i];
+
+    if (char === '"') {
+      let end = i + 1;
+      while (end < line.length && line[end] !== '"') {
+        end += line[end] === "\\" ? 2 : 1;
+      }
+      end = Math.min(end + 1, line.length);
+
+      const isKey = brackets.at(-1) === "{" && /^\s*:/.test(line.slice(end));
+      pushSpan(spans, line.slice(i, end), isKey ? "key" : "string");
+      i = end;
+      continue;
+    }
+
+    const number = line.slice(i).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/)?.[0];
+    if (number) {
+      pushSpan(spans, number, "number");
+      i += number.length;
+      continue;
+    }
+
+    const word = line.slice(i).match(/^[a-zA-Z]+/)?.[0];
+    if (word) {
+      pushSpan(spans, word, word === "true" || word === "false" || word === "null" ? "keyword" : undefined);
+      i += word.length;
+      continue;
+    }
+
+    if (char === "{" || char === "[") {
+      brackets += char;
+    } else if (char === "}" || char === "]") {
+      brackets = brackets.slice(0, -1);
+    }
+
+    pushSpan(spans, char, "{}[],:".includes(char) ? "punctuation" : undefined);
+    ++i;
+  }
+
+  return { spans, state: brackets };
+};
+
+/**
+ * Tokenizer for INI and .env files as well as simple shell scripts
+ *
+ * Tokens: `comment` (starting with `#` or `;`), `section`, `keyword` (`export`), `key`, `operator`, `string`, `variable` and `number`.
+ * State contains quote which is still open, so quoted strings can span multiple lines.
+ *
+ * @example
+ * ```ts
+ * iniTokenizer("name = $USER # comment", undefined);
+ * // { spans: [{ text: "name", token: "key" }, { text: " = ", token: "operator" }, { text: "$USER", token: "variable" }, ...] }
+ * ```
+ */
+export const iniTokenizer: Tokenizer<string | undefined> = (line, state) => {
+  const spans: SyntaxSpan[] = [];
+  let quote = state;
+  let i = 0;
+
+  if (!quote) {
+    if (/^\s*[#;]/.test(line)) {
+      pushSpan(spans, line, "comment");
+      return { spans, state: undefined };
+    }
+
+    const section = line.match(/^\s*\[[^\]]*\]/)?.[0];
+    const key = line.match(/^(\s*)(export\s+)?([\w.-]+)(\s*[=:]\s*)/);
+    if (section) {
+      pushSpan(spans, section, "section");
+      i = section.length;
+    } else if (key) {
+      pushSpan(spans, key[1]);
+      pushSpan(spans, key[2], "keyword");
+      pushSpan(spans, key[3], "key");
+      pushSpan(spans, key[4], "operator");
+      i = key[0].length;
+    }
+  }
+
+  while (i < line.length) {
+    if (quote) {
+      let end = i;
+      while (end < line.length && line[end] !== quote) {
+        end += quote === '"' && line[end] === "\\" ? 2 : 1;
+      }
+
+      if (end >= line.length) {
+        pushSpan(spans, line.slice(i), "string");
+        break;
+      }
+
+      pushSpan(spans, line.slice(i, end + 1), "string");
+      quote = undefined;
+      i = end + 1;
+      continue;
+    }
+
+    const char = line[i];
+    const rest = line.slice(i);
+
+    if (char === '"' || char === "'") {
+      pushSpan(spans, char, "string");
+      quote = char;
+      ++i;
+      continue;
+    }
+
+    if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      pushSpan(spans, rest, "comment");
+      break;
+    }
+
+    const variable = rest.match(/^\$(\{[^}]*\}|\w+)/)?.[0];
+    const number = /\w/.test(line[i - 1] ?? "") ? undefined : rest.match(/^\d+(\.\d+)?\b/)?.[0];
+
+    if (variable) {
+      pushSpan(spans, variable, "variable");
+      i += variable.length;
+    } else if (number) {
+      pushSpan(spans, number, "number");
+      i += number.length;
+    } else {
+      const word = rest.match(/^\w+/)?.[0] ?? char;
+      pushSpan(spans, word);
+      i += word.length;
+    }
+  }
+
+  return { spans, state: quote };
+};
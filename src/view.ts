@@ -1,11 +1,11 @@
 // Copyright 2023 Im-Beast. MIT license.
-import { Signal, signalify } from "../mod.ts";
+import { Signal, signalify, SignalOfObject } from "../mod.ts";
 import { Offset, Rectangle } from "./types.ts";
 
 interface ViewOptions {
   offset?: Offset;
   maxOffset?: Offset;
-  rectangle: Rectangle;
+  rectangle: Rectangle | SignalOfObject<Rectangle>;
 }
 
 export class View {
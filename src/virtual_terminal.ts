@@ -0,0 +1,465 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Signal } from "./signals/mod.ts";
+import { textWidth, UNICODE_CHAR_REGEXP } from "./utils/strings.ts";
+import { clamp } from "./utils/numbers.ts";
+
+import type { ConsoleSize, Stdin, Stdout } from "./types.ts";
+
+const textEncoder = new TextEncoder();
+
+/** Single cell of {VirtualTerminal}'s screen */
+export interface VirtualTerminalCell {
+  /**
+   * Character displayed in the cell
+   *
+   * Empty string means that cell is covered by wide character from the preceding cell
+   */
+  char: string;
+  /** Normalized SGR parameters that were active when `char` got written (e.g. `"1;31;44"`), empty when unstyled */
+  style: string;
+}
+
+export interface VirtualTerminalOptions {
+  /** Size of the terminal, defaults to 80 columns and 24 rows */
+  size?: ConsoleSize;
+}
+
+interface ReadRequest {
+  buffer: Uint8Array;
+  resolve: (size: number | null) => void;
+}
+
+/**
+ * In-memory terminal which can take place of `Deno.stdout` and `Deno.stdin`.
+ *
+ * It interprets cursor movement and SGR sequences written to it and stores the result in a cell grid,
+ * which makes it possible to run Tui headlessly, e.g. in tests or CI.
+ *
+ * @example
+ * ```ts
+ * const terminal = new VirtualTerminal({ size: { columns: 40, rows: 10 } });
+ *
+ * const tui = new Tui({
+ *   stdin: terminal,
+ *   stdout: terminal,
+ *   size: terminal.size,
+ * });
+ *
+ * // ...add components
+ *
+ * tui.canvas.render();
+ * console.log(terminal.text());
+ *
+ * // Feed input to `handleInput(tui)`
+ * terminal.pushInput("\x1b[A");
+ * ```
+ */
+export class VirtualTerminal implements Stdout, Stdin {
+  size: Signal<ConsoleSize>;
+  cells: VirtualTerminalCell[][];
+  cursor: { row: number; column: number };
+  /** Enabled private modes (`CSI ? Pm h`), e.g. `25` when cursor is visible */
+  modes: Set<number>;
+  raw: boolean;
+  closed: boolean;
+
+  #textDecoder: TextDecoder;
+  #pendingSequence: string;
+  #attributes: Set<number>;
+  #foreground: string;
+  #background: string;
+  #style: string;
+
+  #input: Uint8Array[];
+  #readRequests: ReadRequest[];
+
+  constructor(options: VirtualTerminalOptions = {}) {
+    const { columns, rows } = options.size ?? { columns: 80, rows: 24 };
+
+    this.cells = [];
+    this.cursor = { row: 0, column: 0 };
+    this.modes = new Set([25]);
+    this.raw = false;
+    this.closed = false;
+
+    this.#textDecoder = new TextDecoder();
+    this.#pendingSequence = "";
+    this.#attributes = new Set();
+    this.#foreground = "";
+    this.#background = "";
+    this.#style = "";
+
+    this.#input = [];
+    this.#readRequests = [];
+
+    this.size = new Signal({ columns, rows }, { deepObserve: true });
+    this.size.subscribe(() => this.#resizeCells());
+    this.#resizeCells();
+  }
+
+  /** Change terminal size, which also resizes the cell grid */
+  resize(columns: number, rows: number): void {
+    const size = this.size.peek();
+    size.columns = columns;
+    size.rows = rows;
+  }
+
+  /** Returns cell at given position or undefined when it's out of bounds */
+  cell(row: number, column: number): VirtualTerminalCell | undefined {
+    return this.cells[row]?.[column];
+  }
+
+  /** Returns unstyled text displayed in given row */
+  rowText(row: number): string {
+    return this.cells[row]?.reduce((text, cell) => text + cell.char, "") ?? "";
+  }
+
+  /** Returns unstyled text displayed on the whole screen, rows are separated by `\n` */
+  text(): string {
+    return this.cells.map((_, row) => this.rowText(row)).join("\n");
+  }
+
+  /** Clear the screen and reset cursor position and styles */
+  clear(): void {
+    this.#resetStyle();
+    this.cursor.row = 0;
+    this.cursor.column = 0;
+    this.#eraseRows(0, this.cells.length);
+  }
+
+  /** Interpret given data as if it was written to terminal's output */
+  writeSync(data: Uint8Array): number {
+    this.#interpret(this.#textDecoder.decode(data, { stream: true }));
+    return data.length;
+  }
+
+  /** Push data to the input queue, from which it gets consumed by `read()` */
+  pushInput(input: string | Uint8Array): void {
+    if (this.closed) return;
+    this.#input.push(typeof input === "string" ? textEncoder.encode(input) : input);
+    this.#flushInput();
+  }
+
+  /** Read queued input into {buffer}, resolves to `null` once terminal gets closed */
+  read(buffer: Uint8Array): Promise<number | null> {
+    return new Promise((resolve) => {
+      this.#readRequests.push({ buffer, resolve });
+      this.#flushInput();
+    });
+  }
+
+  setRaw(mode: boolean, _options?: Deno.SetRawOptions): void {
+    this.raw = mode;
+  }
+
+  /** Close terminal's input, once queued input gets consumed reads resolve to `null` */
+  close(): void {
+    this.closed = true;
+    this.#flushInput();
+  }
+
+  #flushInput(): void {
+    const input = this.#input;
+    const readRequests = this.#readRequests;
+
+    while (readRequests.length && input.length) {
+      const { buffer, resolve } = readRequests.shift()!;
+
+      const chunk = input[0];
+      const size = Math.min(buffer.length, chunk.length);
+      buffer.set(chunk.subarray(0, size));
+
+      if (size === chunk.length) input.shift();
+      else input[0] = chunk.subarray(size);
+
+      resolve(size);
+    }
+
+    if (!this.closed) return;
+
+    while (readRequests.length && !input.length) {
+      readRequests.shift()!.resolve(null);
+    }
+  }
+
+  #resizeCells(): void {
+    const { columns, rows } = this.size.peek();
+    const { cells, cursor } = this;
+
+    cells.length = Math.min(cells.length, rows);
+    for (let row = 0; row < rows; ++row) {
+      const rowCells = cells[row] ??= [];
+      rowCells.length = Math.min(rowCells.length, columns);
+      for (let column = rowCells.length; column < columns; ++column) {
+        rowCells[column] = { char: " ", style: "" };
+      }
+    }
+
+    cursor.row = clamp(cursor.row, 0, rows - 1);
+    cursor.column = clamp(cursor.column, 0, columns - 1);
+  }
+
+  #interpret(text: string): void {
+    text = this.#pendingSequence + text;
+    this.#pendingSequence = "";
+
+    const { length } = text;
+    let i = 0;
+    while (i < length) {
+      const char = text[i];
+
+      if (char === "\x1b") {
+        const end = sequenceEnd(text, i);
+        if (end === -1) {
+          this.#pendingSequence = text.slice(i);
+          return;
+        }
+
+        this.#interpretSequence(text.slice(i, end + 1));
+        i = end + 1;
+        continue;
+      }
+
+      if (char < " " || char === "\x7f") {
+        this.#interpretControl(char);
+        ++i;
+        continue;
+      }
+
+      let end = i + 1;
+      while (end < length && text[end] >= " " && text[end] !== "\x7f") ++end;
+
+      for (const grapheme of text.slice(i, end).match(UNICODE_CHAR_REGEXP) ?? []) {
+        this.#print(grapheme);
+      }
+
+      i = end;
+    }
+  }
+
+  #interpretControl(char: string): void {
+    const { cursor } = this;
+
+    switch (char) {
+      case "\r":
+        cursor.column = 0;
+        break;
+      case "\n":
+        this.#lineFeed();
+        break;
+      case "\b":
+        cursor.column = Math.max(cursor.column - 1, 0);
+        break;
+    }
+  }
+
+  #interpretSequence(sequence: string): void {
+    // Only CSI sequences affect the screen, other ones (OSC, charset selection etc.) get ignored
+    if (sequence[1] !== "[") return;
+
+    const final = sequence[sequence.length - 1];
+    let body = sequence.slice(2, -1);
+
+    if (body[0] === "?") {
+      body = body.slice(1);
+      for (const parameter of body.split(";")) {
+        if (final === "h") this.modes.add(+parameter);
+        else if (final === "l") this.modes.delete(+parameter);
+      }
+      return;
+    }
+
+    const parameters = body.split(";");
+    const { cursor } = this;
+    const { columns, rows } = this.size.peek();
+    // Most sequences treat missing or zero parameter as 1
+    const count = Math.max(+parameters[0] || 1, 1);
+
+    switch (final) {
+      case "H":
+      case "f":
+        cursor.row = clamp((+parameters[0] || 1) - 1, 0, rows - 1);
+        cursor.column = clamp((+parameters[1] || 1) - 1, 0, columns - 1);
+        break;
+      case "A":
+        cursor.row = Math.max(cursor.row - count, 0);
+        break;
+      case "B":
+        cursor.row = Math.min(cursor.row + count, rows - 1);
+        break;
+      case "C":
+        cursor.column = Math.min(cursor.column + count, columns - 1);
+        break;
+      case "D":
+        cursor.column = Math.max(cursor.column - count, 0);
+        break;
+      case "G":
+        cursor.column = clamp(count - 1, 0, columns - 1);
+        break;
+      case "d":
+        cursor.row = clamp(count - 1, 0, rows - 1);
+        break;
+      case "J":
+        switch (+parameters[0] || 0) {
+          case 0:
+            this.#eraseColumns(cursor.row, cursor.column, columns);
+            this.#eraseRows(cursor.row + 1, rows);
+            break;
+          case 1:
+            this.#eraseRows(0, cursor.row);
+            this.#eraseColumns(cursor.row, 0, cursor.column + 1);
+            break;
+          default:
+            this.#eraseRows(0, rows);
+            break;
+        }
+        break;
+      case "K":
+        switch (+parameters[0] || 0) {
+          case 0:
+            this.#eraseColumns(cursor.row, cursor.column, columns);
+            break;
+          case 1:
+            this.#eraseColumns(cursor.row, 0, cursor.column + 1);
+            break;
+          default:
+            this.#eraseColumns(cursor.row, 0, columns);
+            break;
+        }
+        break;
+      case "m":
+        this.#interpretSGR(parameters);
+        break;
+    }
+  }
+
+  #interpretSGR(parameters: string[]): void {
+    const attributes = this.#attributes;
+
+    for (let i = 0; i < parameters.length; ++i) {
+      const parameter = +parameters[i] || 0;
+
+      if (parameter === 0) {
+        this.#resetStyle();
+      } else if (parameter < 10) {
+        attributes.add(parameter);
+      } else if (parameter === 22) {
+        attributes.delete(1);
+        attributes.delete(2);
+      } else if (parameter >= 23 && parameter <= 29) {
+        attributes.delete(parameter - 20);
+      } else if ((parameter >= 30 && parameter <= 37) || (parameter >= 90 && parameter <= 97)) {
+        this.#foreground = `${parameter}`;
+      } else if ((parameter >= 40 && parameter <= 47) || (parameter >= 100 && parameter <= 107)) {
+        this.#background = `${parameter}`;
+      } else if (parameter === 39) {
+        this.#foreground = "";
+      } else if (parameter === 49) {
+        this.#background = "";
+      } else if (parameter === 38 || parameter === 48) {
+        // Extended colors: 5;n (256 colors) or 2;r;g;b (true color)
+        const length = parameters[i + 1] === "5" ? 2 : parameters[i + 1] === "2" ? 4 : 0;
+        const color = [parameter, ...parameters.slice(i + 1, i + 1 + length)].join(";");
+        i += length;
+
+        if (parameter === 38) this.#foreground = color;
+        else this.#background = color;
+      }
+    }
+
+    this.#updateStyle();
+  }
+
+  #resetStyle(): void {
+    this.#attributes.clear();
+    this.#foreground = "";
+    this.#background = "";
+    this.#style = "";
+  }
+
+  #updateStyle(): void {
+    const parameters: (string | number)[] = [...this.#attributes].sort((a, b) => a - b);
+    if (this.#foreground) parameters.push(this.#foreground);
+    if (this.#background) parameters.push(this.#background);
+    this.#style = parameters.join(";");
+  }
+
+  #print(grapheme: string): void {
+    const { cursor, cells } = this;
+    const { columns } = this.size.peek();
+    const width = Math.min(textWidth(grapheme), 2);
+
+    // Zero-width characters get combined with the previous one
+    if (width === 0) {
+      const previous = cells[cursor.row][cursor.column - 1];
+      if (previous) previous.char += grapheme;
+      return;
+    }
+
+    if (cursor.column + width > columns) {
+      cursor.column = 0;
+      this.#lineFeed();
+    }
+
+    const rowCells = cells[cursor.row];
+    rowCells[cursor.column] = { char: grapheme, style: this.#style };
+    if (width === 2) {
+      rowCells[cursor.column + 1] = { char: "", style: this.#style };
+    }
+
+    cursor.column += width;
+  }
+
+  #lineFeed(): void {
+    const { cursor, cells } = this;
+    const { columns, rows } = this.size.peek();
+
+    if (cursor.row < rows - 1) {
+      ++cursor.row;
+      return;
+    }
+
+    cells.shift();
+    cells.push(Array.from({ length: columns }, () => ({ char: " ", style: "" })));
+  }
+
+  #eraseRows(from: number, to: number): void {
+    const { columns } = this.size.peek();
+    for (let row = from; row < to; ++row) {
+      this.#eraseColumns(row, 0, columns);
+    }
+  }
+
+  #eraseColumns(row: number, from: number, to: number): void {
+    const rowCells = this.cells[row];
+    if (!rowCells) return;
+
+    for (let column = from; column < to && column < rowCells.length; ++column) {
+      rowCells[column] = { char: " ", style: "" };
+    }
+  }
+}
+
+/** Returns index of the last character of escape sequence starting at {start} or -1 if it's incomplete */
+function sequenceEnd(text: string, start: number): number {
+  const introducer = text[start + 1];
+
+  switch (introducer) {
+    case undefined:
+      return -1;
+    case "[":
+      for (let i = start + 2; i < text.length; ++i) {
+        const codePoint = text.charCodeAt(i);
+        if (codePoint >= 0x40 && codePoint <= 0x7e) return i;
+      }
+      return -1;
+    case "]":
+      for (let i = start + 2; i < text.length; ++i) {
+        if (text[i] === "\x07") return i;
+        if (text[i] === "\x1b" && text[i + 1] === "\\") return i + 1;
+      }
+      return -1;
+    default:
+      return start + 1;
+  }
+}
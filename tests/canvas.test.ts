@@ -0,0 +1,112 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Box } from "../src/components/box.ts";
+import { Text } from "../src/components/text.ts";
+import { View } from "../src/view.ts";
+import { mountComponent } from "./snapshot.ts";
+import { assertEquals } from "./deps.ts";
+
+const bgBlue = (text: string) => `\x1b[44m${text}\x1b[0m`;
+
+Deno.test("canvas/mod.ts", async (t) => {
+  await t.step("Clipping to view rectangle", async () => {
+    const view = new View({
+      rectangle: { column: 2, row: 1, width: 6, height: 2 },
+    });
+
+    const { tui, terminal, render, destroy } = await mountComponent((tui) =>
+      new Text({
+        parent: tui,
+        view,
+        text: "aテクb",
+        multiCodePointSupport: true,
+        theme: {},
+        rectangle: { column: 0, row: 0 },
+        zIndex: 1,
+      }), { columns: 12, rows: 4 });
+
+    // Background rerenders cells which objects moved away from
+    new Box({
+      parent: tui,
+      theme: {},
+      rectangle: { column: 0, row: 0, width: 12, height: 4 },
+      zIndex: -1,
+    });
+
+    new Box({
+      parent: tui,
+      view,
+      theme: { base: bgBlue },
+      rectangle: { column: 0, row: 1, width: 20, height: 5 },
+      zIndex: 0,
+    });
+
+    new Text({
+      parent: tui,
+      text: "0123456789",
+      theme: {},
+      rectangle: { column: 0, row: 3 },
+      zIndex: 0,
+    });
+
+    await render();
+    assertEquals(terminal.rowText(1), "  aテクb    ");
+    assertEquals(terminal.rowText(2), "            ");
+    assertEquals(terminal.cell(2, 7)?.style, "44");
+    assertEquals(terminal.cell(2, 8)?.style, "");
+    assertEquals(terminal.rowText(3), "0123456789  ");
+
+    // Wide character cut in half by the left edge gets replaced with space
+    view.offset.value.columns = 2;
+    await render();
+    assertEquals(terminal.rowText(1), "   クb      ");
+
+    // Wide character cut in half by the right edge gets replaced with space
+    view.offset.value.columns = -2;
+    await render();
+    assertEquals(terminal.rowText(1), "    aテ     ");
+    assertEquals(terminal.cell(1, 7)?.char, " ");
+
+    view.offset.value.columns = 0;
+    view.offset.value.rows = 1;
+    await render();
+    assertEquals(terminal.rowText(1), "            ");
+    assertEquals(terminal.cell(1, 2)?.style, "44");
+    assertEquals(terminal.rowText(3), "0123456789  ");
+
+    destroy();
+  });
+
+  await t.step("Moving object over another one", async () => {
+    const { tui, component, terminal, render, destroy } = await mountComponent((tui) =>
+      new Text({
+        parent: tui,
+        text: "x",
+        theme: {},
+        rectangle: { column: 1, row: 0 },
+        zIndex: 1,
+      }), { columns: 8, rows: 2 });
+
+    const text = new Text({
+      parent: tui,
+      text: "abcdef",
+      theme: {},
+      rectangle: { column: 0, row: 1 },
+      zIndex: 0,
+    });
+
+    await render();
+    assertEquals(terminal.rowText(1), "abcdef  ");
+
+    component.text.value = "y";
+    component.rectangle.value.row = 1;
+    await render();
+    assertEquals(terminal.rowText(1), "aycdef  ");
+
+    // Object under has to know it got covered, otherwise it overwrites object above
+    text.text.value = "ABCDEF";
+    await render();
+    assertEquals(terminal.rowText(1), "AyCDEF  ");
+
+    destroy();
+  });
+});
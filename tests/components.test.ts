@@ -0,0 +1,1280 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Tui } from "../src/tui.ts";
+import { Box } from "../src/components/box.ts";
+import { Button } from "../src/components/button.ts";
+import { CheckBox } from "../src/components/checkbox.ts";
+import { ComboBox } from "../src/components/combobox.ts";
+import { Dialog } from "../src/components/dialog.ts";
+import { Frame } from "../src/components/frame.ts";
+import { Input } from "../src/components/input.ts";
+import { Label } from "../src/components/label.ts";
+import { List } from "../src/components/list.ts";
+import { ProgressBar } from "../src/components/progressbar.ts";
+import { RadioGroup } from "../src/components/radio_group.ts";
+import { ScrollView } from "../src/components/scroll_view.ts";
+import { Slider } from "../src/components/slider.ts";
+import { Table } from "../src/components/table.ts";
+import { Text } from "../src/components/text.ts";
+import { TextBox } from "../src/components/textbox.ts";
+import { jsonTokenizer, Tokenizer } from "../src/utils/syntax.ts";
+import { Tree } from "../src/components/tree.ts";
+import { handleKeyboardControls, handleMouseControls } from "../src/controls.ts";
+import { decodeKey } from "../src/input_reader/decoders/keyboard.ts";
+import { InputParser } from "../src/input_reader/parser.ts";
+import type { MouseEvent } from "../src/input_reader/types.ts";
+import { assertSnapshot, mountComponent } from "./snapshot.ts";
+import { assertEquals } from "./deps.ts";
+
+const sgr = (code: string) => (text: string) => `\x1b[${code}m${text}\x1b[0m`;
+
+const red = sgr("31");
+const bold = sgr("1");
+const bgBlue = sgr("44");
+const bgGreen = sgr("42");
+const bgYellow = sgr("43");
+const bgBlack = sgr("40");
+
+const textEncoder = new TextEncoder();
+
+const mouseMove: MouseEvent = {
+  key: "mouse",
+  buffer: new Uint8Array(),
+  x: 0,
+  y: 0,
+  movementX: 0,
+  movementY: 0,
+  ctrl: false,
+  meta: false,
+  shift: false,
+};
+
+Deno.test("components/mod.ts", async (t) => {
+  await t.step("Box", async (t) => {
+    const { snapshot, destroy } = await mountComponent((tui) =>
+      new Box({
+        parent: tui,
+        theme: { base: bgBlue },
+        rectangle: { column: 1, row: 1, width: 4, height: 2 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("Button", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new Button({
+        parent: tui,
+        label: { text: "click" },
+        theme: { base: bgBlue, focused: bgGreen, active: bgYellow, hovered: bgBlack },
+        rectangle: { column: 1, row: 1, width: 9, height: 3 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+
+    component.state.value = "focused";
+    await assertSnapshot(t, await snapshot(true));
+
+    component.state.value = "base";
+    handleMouseControls(tui, { hover: true });
+    const parser = new InputParser(tui);
+
+    const events: string[] = [];
+    component.on("mouseEnter", () => void events.push("enter"));
+    component.on("mouseLeave", () => void events.push("leave"));
+
+    // Pointer moves over the button without any button pressed
+    parser.feed(textEncoder.encode("\x1b[<35;3;3M"));
+    assertEquals(component.hovered.peek(), true);
+    await assertSnapshot(t, await snapshot(true));
+
+    parser.feed(textEncoder.encode("\x1b[<35;15;4M"));
+    assertEquals(component.hovered.peek(), false);
+    assertEquals(events, ["enter", "leave"]);
+
+    // Hidden and destroyed components stop being hovered
+    parser.feed(textEncoder.encode("\x1b[<35;3;3M"));
+    component.visible.value = false;
+    assertEquals(component.hovered.peek(), false);
+    assertEquals(events, ["enter", "leave", "enter", "leave"]);
+
+    component.visible.value = true;
+    parser.feed(textEncoder.encode("\x1b[<35;4;3M"));
+    assertEquals(component.hovered.peek(), true);
+    component.destroy();
+    assertEquals(component.hovered.peek(), false);
+
+    destroy();
+  });
+
+  await t.step("CheckBox", async (t) => {
+    const { component, snapshot, destroy } = await mountComponent((tui) =>
+      new CheckBox({
+        parent: tui,
+        checked: false,
+        theme: { base: bgBlue },
+        rectangle: { column: 1, row: 1, width: 1, height: 1 },
+        zIndex: 0,
+      })
+    );
+
+    const unchecked = await snapshot();
+    component.checked.value = true;
+    await assertSnapshot(t, unchecked + await snapshot());
+
+    destroy();
+  });
+
+  await t.step("ComboBox", async (t) => {
+    const { component, snapshot, destroy } = await mountComponent((tui) =>
+      new ComboBox({
+        parent: tui,
+        items: ["one", "two", "three"],
+        placeholder: "choose",
+        theme: { base: bgBlue },
+        rectangle: { column: 1, row: 0, width: 8, height: 1 },
+        zIndex: 0,
+      })
+    );
+
+    const collapsed = await snapshot();
+    component.expanded.value = true;
+    await assertSnapshot(t, collapsed + await snapshot());
+
+    destroy();
+  });
+
+  await t.step("Dialog", async (t) => {
+    const createDialog = (tui: Tui) =>
+      new Dialog({
+        parent: tui,
+        title: "Quit",
+        text: "Are you sure?",
+        buttons: [{ label: "Yes", action: "yes" }, { label: "No", action: "no" }],
+        cancelAction: "no",
+        backdrop: true,
+        theme: { base: bgBlue, backdrop: { base: bgBlack }, button: { base: bgGreen, focused: bgYellow } },
+        rectangle: { width: 18, height: 6 },
+        zIndex: 1,
+      });
+
+    const { tui, component, snapshot, destroy } = await mountComponent(createDialog, { columns: 20, rows: 8 });
+    await assertSnapshot(t, await snapshot(true));
+
+    // Canvas doesn't clear cells without any object beneath them
+    new Box({
+      parent: tui,
+      theme: { base: (text) => text },
+      rectangle: { column: 0, row: 0, width: 20, height: 8 },
+      zIndex: -1,
+    });
+
+    const pressKey = (code: string) => tui.emit("keyPress", decodeKey(textEncoder.encode(code), code));
+    handleKeyboardControls(tui);
+
+    pressKey("\t");
+    pressKey("\r");
+    assertEquals(await component.result, "no");
+    assertEquals(tui.focusManager.scopes, []);
+
+    // Closed dialog doesn't leave any of its parts behind
+    assertEquals((await snapshot()).trim(), "");
+    assertEquals([...tui.components].map((component) => component.constructor.name), ["Box"]);
+
+    const dialog = createDialog(tui);
+    pressKey("\x1b");
+    assertEquals(await dialog.result, "no");
+
+    // Escape hides suggestions of focused Input first, only then it closes the dialog
+    const dialogWithInput = createDialog(tui);
+    const input = new Input({
+      parent: dialogWithInput,
+      autocomplete: (text) => ["banana", "blueberry"].filter((fruit) => fruit.startsWith(text)),
+      theme: { cursor: {} },
+      rectangle: { column: 2, row: 3, width: 10 },
+      zIndex: 2,
+    });
+    // Dependency tracking is asynchronous
+    await Promise.resolve();
+
+    tui.focusManager.focus(input);
+    tui.emit("textInput", { text: "b" });
+    assertEquals(input.suggestions.peek(), ["banana", "blueberry"]);
+
+    pressKey("\x1b");
+    assertEquals(input.suggestions.peek(), []);
+    assertEquals(tui.focusManager.scopes.at(-1)?.container, dialogWithInput);
+
+    // Captured key press is remembered until the end of the current tick
+    await Promise.resolve();
+    pressKey("\x1b");
+    assertEquals(await dialogWithInput.result, "no");
+
+    // Options don't get modified, so they can be reused
+    const options = {
+      parent: tui,
+      text: "Reused",
+      buttons: [],
+      cancelAction: "cancel",
+      theme: {},
+      rectangle: { width: 10, height: 4 },
+      zIndex: 1,
+    };
+    new Dialog(options).close();
+    const reusedDialog = new Dialog(options);
+    assertEquals(Object.keys(options.theme).filter((key) => key === "backdrop" || key === "button"), []);
+    assertEquals({ ...reusedDialog.rectangle.peek() }, { column: 5, row: 2, width: 10, height: 4 });
+
+    // Dialog destroyed along with Tui resolves with cancel action
+    await Promise.resolve();
+    destroy();
+    assertEquals(await reusedDialog.result, "cancel");
+  });
+
+  await t.step("Frame", async (t) => {
+    const { snapshot, destroy } = await mountComponent((tui) =>
+      new Frame({
+        parent: tui,
+        charMap: "rounded",
+        theme: { base: red },
+        rectangle: { column: 1, row: 1, width: 6, height: 2 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("Input", async (t) => {
+    const { component, snapshot, destroy } = await mountComponent((tui) =>
+      new Input({
+        parent: tui,
+        placeholder: "type here",
+        theme: { base: bgBlue, cursor: { base: bgYellow } },
+        rectangle: { column: 1, row: 1, width: 12 },
+        zIndex: 0,
+      })
+    );
+
+    const placeholder = await snapshot();
+    component.text.value = "hello";
+    component.cursorPosition.value = 5;
+    await assertSnapshot(t, placeholder + await snapshot(true));
+
+    destroy();
+  });
+
+  await t.step("Input with mask, validation and autocomplete", async (t) => {
+    const masked = await mountComponent((tui) =>
+      new Input({
+        parent: tui,
+        mask: "9999-99-99",
+        theme: { base: bgBlue, cursor: { base: bgYellow } },
+        rectangle: { column: 1, row: 1, width: 12 },
+        zIndex: 0,
+      })
+    );
+
+    const maskedParser = new InputParser(masked.tui);
+    const pressMaskedKey = (code: string) => {
+      maskedParser.feed(textEncoder.encode(code));
+      maskedParser.flush();
+    };
+    masked.tui.focusManager.focus(masked.component);
+
+    for (const key of "2024x0131") pressMaskedKey(key);
+    assertEquals(masked.component.text.peek(), "2024-01-31");
+    assertEquals(masked.component.cursorPosition.peek(), 10);
+
+    masked.component.cursorPosition.value = 5;
+    pressMaskedKey("\x7f");
+    assertEquals(masked.component.text.peek(), "2024-01-31");
+    assertEquals(masked.component.cursorPosition.peek(), 4);
+    pressMaskedKey("\x1b[C");
+    pressMaskedKey("\x1b[3~");
+    assertEquals(masked.component.text.peek(), "2024-1-31");
+
+    masked.component.text.value = "";
+    masked.component.cursorPosition.value = 0;
+    masked.component.validator.value = /\d/;
+    masked.tui.emit("paste", { text: "1999/12/31\n" });
+    assertEquals(masked.component.text.peek(), "1999-12-31");
+    assertEquals(masked.component.cursorPosition.peek(), 10);
+    masked.destroy();
+
+    const fruits = ["apple", "banana", "blackberry", "blueberry"];
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) => {
+      // Background gets redrawn once suggestions get hidden
+      new Box({
+        parent: tui,
+        theme: { base: (text) => text },
+        rectangle: { column: 0, row: 0, width: 20, height: 5 },
+        zIndex: -1,
+      });
+
+      new Input({
+        parent: tui,
+        theme: { base: bgBlue, cursor: { base: bgYellow } },
+        rectangle: { column: 1, row: 4, width: 12 },
+        zIndex: 0,
+      });
+
+      return new Input({
+        parent: tui,
+        validate: (text) => fruits.includes(text) ? undefined : "Unknown fruit",
+        autocomplete: (text) => fruits.filter((fruit) => fruit.startsWith(text)),
+        maxSuggestions: 2,
+        theme: {
+          base: bgBlue,
+          cursor: { base: bgYellow },
+          invalid: { base: red },
+          suggestion: { base: bgBlack },
+          selectedSuggestion: { base: bgGreen },
+        },
+        rectangle: { column: 1, row: 1, width: 12 },
+        zIndex: 0,
+      });
+    });
+
+    const parser = new InputParser(tui);
+    const pressKey = (code: string) => {
+      parser.feed(textEncoder.encode(code));
+      parser.flush();
+    };
+    handleKeyboardControls(tui);
+    tui.focusManager.focus(component);
+
+    pressKey("b");
+    assertEquals(component.suggestions.peek(), ["banana", "blackberry", "blueberry"]);
+    assertEquals(component.valid.peek(), false);
+    assertEquals(component.error.peek(), "Unknown fruit");
+
+    pressKey("\x1b[B");
+    pressKey("\x1b[B");
+    assertEquals(component.selectedSuggestion.peek(), 2);
+    await assertSnapshot(t, await snapshot(true));
+
+    pressKey("\t");
+    assertEquals(component.text.peek(), "blueberry");
+    assertEquals(component.cursorPosition.peek(), 9);
+    assertEquals(component.suggestions.peek(), []);
+    assertEquals(component.valid.peek(), true);
+    assertEquals(tui.focusManager.focused.peek(), component);
+    await assertSnapshot(t, await snapshot(true));
+
+    pressKey("\t");
+    assertEquals(tui.focusManager.focused.peek() === component, false);
+
+    destroy();
+  });
+
+  await t.step("Label", async (t) => {
+    const { snapshot, destroy } = await mountComponent((tui) =>
+      new Label({
+        parent: tui,
+        text: "Hello\nthere",
+        align: { horizontal: "center", vertical: "center" },
+        overwriteRectangle: true,
+        theme: { base: bold },
+        rectangle: { column: 1, row: 0, width: 11, height: 4 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("Label with markup", async (t) => {
+    const { component, snapshot, destroy } = await mountComponent((tui) =>
+      new Label({
+        parent: tui,
+        text: "[bold red]error[/] at\n[bgBlue]line テ 2[/]",
+        markup: true,
+        align: { horizontal: "right", vertical: "top" },
+        overwriteRectangle: true,
+        theme: {},
+        rectangle: { column: 1, row: 0, width: 7, height: 2 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    assertEquals(component.drawnObjects.texts[1].text.peek(), "[bgBlue]line テ[/]");
+
+    destroy();
+  });
+
+  await t.step("Label overflow", async (t) => {
+    const { component, snapshot, destroy } = await mountComponent((tui) => {
+      // Background rerenders cells of lines which got removed
+      new Box({
+        parent: tui,
+        theme: {},
+        rectangle: { column: 0, row: 0, width: 10, height: 4 },
+        zIndex: -1,
+      });
+
+      return new Label({
+        parent: tui,
+        text: "Lorem ipsum dolor sit amet\nテクテク",
+        overflow: "word",
+        overwriteRectangle: true,
+        theme: {},
+        rectangle: { column: 1, row: 0, width: 7, height: 3 },
+        zIndex: 0,
+      });
+    });
+
+    await assertSnapshot(t, await snapshot());
+
+    component.overflow.value = "ellipsis";
+    await assertSnapshot(t, await snapshot());
+
+    destroy();
+  });
+
+  await t.step("List", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new List({
+        parent: tui,
+        items: ["Apple", "Banana", "Blueberry", "Cherry", "Durian", "Elderberry"],
+        multiSelect: true,
+        theme: { base: sgr("37"), selectedItem: { base: bgBlue }, checkedItem: { base: bgGreen } },
+        rectangle: { column: 1, row: 1, width: 8, height: 3 },
+        zIndex: 0,
+      })
+    );
+
+    const pressKey = (code: string) => tui.emit("keyPress", decodeKey(textEncoder.encode(code), code));
+    tui.focusManager.focus(component);
+
+    pressKey("\x1b[B");
+    pressKey(" ");
+    pressKey("\x1b[F");
+    assertEquals(component.selectedIndex.peek(), 5);
+    assertEquals(component.offset.peek(), 3);
+    assertEquals([...component.checkedIndices.peek()], [1]);
+
+    pressKey("\x1b[H");
+    pressKey("\x1b[6~");
+    assertEquals(component.selectedIndex.peek(), 3);
+    assertEquals(component.offset.peek(), 1);
+    await assertSnapshot(t, await snapshot(true));
+
+    const parser = new InputParser(tui);
+    const type = (text: string) => {
+      parser.feed(textEncoder.encode(text));
+      parser.flush();
+    };
+
+    type("b");
+    assertEquals(component.selectedIndex.peek(), 1);
+    type("l");
+    assertEquals(component.selectedIndex.peek(), 2);
+    assertEquals(component.offset.peek(), 1);
+
+    component.items.value = ["Fig"];
+    assertEquals(component.selectedIndex.peek(), 0);
+    assertEquals(component.offset.peek(), 0);
+
+    destroy();
+  });
+
+  await t.step("List type-ahead", async () => {
+    // Text typed within a second gets joined, so every search gets its own list
+    const search = async (...typed: string[]) => {
+      const { tui, component, destroy } = await mountComponent((tui) =>
+        new List({
+          parent: tui,
+          items: ["Apple", "Żółw", "日本語", "Blue whale", "Blue sky"],
+          multiSelect: true,
+          theme: { selectedItem: {}, checkedItem: {} },
+          rectangle: { column: 1, row: 1, width: 8, height: 3 },
+          zIndex: 0,
+        })
+      );
+
+      const parser = new InputParser(tui);
+      tui.focusManager.focus(component);
+      for (const text of typed) {
+        parser.feed(textEncoder.encode(text));
+        parser.flush();
+      }
+
+      const result = { selectedIndex: component.selectedIndex.peek(), checked: [...component.checkedIndices.peek()] };
+      destroy();
+      return result;
+    };
+
+    assertEquals(await search("ż"), { selectedIndex: 1, checked: [] });
+    assertEquals(await search("日本"), { selectedIndex: 2, checked: [] });
+    // Space continues typed text instead of toggling selected item
+    assertEquals(await search("blue", " ", "s"), { selectedIndex: 4, checked: [] });
+    assertEquals(await search(" "), { selectedIndex: 0, checked: [0] });
+  });
+
+  await t.step("ProgressBar", async (t) => {
+    const { snapshot, destroy } = await mountComponent((tui) =>
+      new ProgressBar({
+        parent: tui,
+        orientation: "horizontal",
+        direction: "normal",
+        value: 50,
+        min: 0,
+        max: 100,
+        smooth: false,
+        theme: { base: bgBlue, progress: { base: bgGreen } },
+        rectangle: { column: 1, row: 1, width: 10, height: 1 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("RadioGroup", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new RadioGroup({
+        parent: tui,
+        items: ["Small", "Medium", "Large"],
+        theme: { base: bgBlue, selectedItem: { base: bgGreen } },
+        rectangle: { column: 1, row: 1, width: 12, height: 3 },
+        zIndex: 0,
+      }), { columns: 26, rows: 5 });
+
+    const pressKey = (code: string) => tui.emit("keyPress", decodeKey(textEncoder.encode(code), code));
+    tui.focusManager.focus(component);
+
+    pressKey("\x1b[A");
+    assertEquals(component.selected.peek(), 2);
+    pressKey("\x1b[B");
+    pressKey("\x1b[C");
+    assertEquals(component.selected.peek(), 1);
+    const vertical = await snapshot(true);
+
+    component.orientation.value = "horizontal";
+    component.charMap.value = { selected: "◉", unselected: "○" };
+    component.rectangle.value.width = 24;
+
+    tui.emit("mouseEvent", {
+      key: "mouse",
+      buffer: new Uint8Array(),
+      x: 21,
+      y: 1,
+      movementX: 0,
+      movementY: 0,
+      button: 0,
+      drag: false,
+      release: false,
+      ctrl: false,
+      meta: false,
+      shift: false,
+    });
+    assertEquals(component.selected.peek(), 2);
+    await assertSnapshot(t, vertical + await snapshot(true));
+
+    component.items.value = ["Small"];
+    assertEquals(component.selected.peek(), undefined);
+
+    destroy();
+  });
+
+  await t.step("ScrollView", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) => {
+      const scrollView = new ScrollView({
+        parent: tui,
+        scrollbar: true,
+        theme: { base: bgBlue, scrollbar: { base: bgBlack }, thumb: { base: bgYellow } },
+        rectangle: { column: 1, row: 0, width: 8, height: 3 },
+        zIndex: 0,
+      });
+
+      new Label({
+        parent: scrollView,
+        text: "one\ntwo\nthree\nfour\nfive\nsix",
+        theme: { base: bgBlue },
+        rectangle: { column: 1, row: 0 },
+        zIndex: 1,
+      });
+
+      return scrollView;
+    });
+
+    await assertSnapshot(t, await snapshot(true));
+    assertEquals(component.content.maxOffset.peek(), { columns: 0, rows: 3 });
+
+    tui.emit("mouseScroll", {
+      key: "mouse",
+      buffer: new Uint8Array(),
+      x: 2,
+      y: 1,
+      movementX: 0,
+      movementY: 0,
+      scroll: 1,
+      drag: false,
+      ctrl: false,
+      meta: false,
+      shift: false,
+    });
+    assertEquals(component.content.offset.peek(), { columns: 0, rows: 1 });
+    tui.focusManager.focus(component);
+    tui.emit("keyPress", decodeKey(textEncoder.encode("\x1b[6~"), "\x1b[6~"));
+    assertEquals(component.content.offset.peek(), { columns: 0, rows: 3 });
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("Nested ScrollViews", async () => {
+    let inner!: ScrollView;
+    let textBox!: TextBox;
+    let bottomLabel!: Label;
+
+    const { tui, component, render, destroy } = await mountComponent((tui) => {
+      const outer = new ScrollView({
+        parent: tui,
+        theme: {},
+        rectangle: { column: 0, row: 0, width: 20, height: 4 },
+        zIndex: 0,
+      });
+
+      inner = new ScrollView({
+        parent: outer,
+        theme: {},
+        rectangle: { column: 0, row: 0, width: 8, height: 2 },
+        zIndex: 1,
+      });
+
+      new Label({
+        parent: inner,
+        text: "a\nb\nc\nd",
+        theme: {},
+        rectangle: { column: 0, row: 0 },
+        zIndex: 2,
+      });
+
+      textBox = new TextBox({
+        parent: outer,
+        text: "1\n2\n3\n4",
+        theme: { cursor: {} },
+        rectangle: { column: 10, row: 0, width: 6, height: 2 },
+        zIndex: 1,
+      });
+
+      bottomLabel = new Label({
+        parent: outer,
+        text: "end",
+        theme: {},
+        rectangle: { column: 0, row: 6 },
+        zIndex: 1,
+      });
+
+      return outer;
+    }, { columns: 20, rows: 8 });
+
+    assertEquals(component.content.maxOffset.peek(), { columns: 0, rows: 3 });
+    assertEquals(inner.content.maxOffset.peek(), { columns: 0, rows: 2 });
+
+    // Content size gets recalculated once child's rectangle changes
+    bottomLabel.rectangle.value.row = 8;
+    await render();
+    assertEquals(component.content.maxOffset.peek(), { columns: 0, rows: 5 });
+
+    const scrollAt = (x: number, y: number) =>
+      tui.emit("mouseScroll", {
+        key: "mouse",
+        buffer: new Uint8Array(),
+        x,
+        y,
+        movementX: 0,
+        movementY: 0,
+        scroll: 1,
+        drag: false,
+        ctrl: false,
+        meta: false,
+        shift: false,
+      });
+
+    // Only the innermost ScrollView under the pointer scrolls
+    scrollAt(1, 0);
+    assertEquals(inner.content.offset.peek(), { columns: 0, rows: 1 });
+    assertEquals(component.content.offset.peek(), { columns: 0, rows: 0 });
+
+    // Focused TextBox scrolls by itself
+    tui.focusManager.focus(textBox);
+    scrollAt(11, 0);
+    assertEquals(textBox.offset.peek(), { columns: 0, rows: 1 });
+    assertEquals(component.content.offset.peek(), { columns: 0, rows: 0 });
+    tui.focusManager.focus(undefined);
+
+    scrollAt(11, 0);
+    scrollAt(9, 1);
+    assertEquals(component.content.offset.peek(), { columns: 0, rows: 2 });
+    assertEquals(inner.content.offset.peek(), { columns: 0, rows: 1 });
+
+    destroy();
+  });
+
+  await t.step("Slider", async (t) => {
+    const { snapshot, destroy } = await mountComponent((tui) =>
+      new Slider({
+        parent: tui,
+        min: 0,
+        max: 10,
+        step: 1,
+        value: 5,
+        adjustThumbSize: false,
+        orientation: "horizontal",
+        theme: { base: bgBlue, thumb: { base: bgYellow } },
+        rectangle: { column: 1, row: 1, width: 11, height: 1 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("Table", async (t) => {
+    const { component, snapshot, destroy } = await mountComponent((tui) =>
+      new Table({
+        parent: tui,
+        charMap: "sharp",
+        headers: [{ title: "ID" }, { title: "Name" }],
+        data: [
+          ["0", "Thomas"],
+          ["1", "Jeremy"],
+          ["2", "Julianne"],
+        ],
+        theme: {
+          base: sgr("37"),
+          hovered: bgGreen,
+          frame: { base: red },
+          header: { base: bold },
+          selectedRow: { base: bgBlue },
+        },
+        rectangle: { column: 0, row: 0, height: 7 },
+        zIndex: 0,
+      }), { columns: 20, rows: 8 });
+
+    await assertSnapshot(t, await snapshot(true));
+
+    component.selectedRow.value = 2;
+    await assertSnapshot(t, await snapshot(true));
+
+    // Row under the pointer gets highlighted
+    component.hovered.value = true;
+    component.emit("mouseMove", { ...mouseMove, x: 3, y: 4 });
+    assertEquals(component.hoveredRow.peek(), 1);
+    await assertSnapshot(t, await snapshot(true));
+
+    component.emit("mouseLeave", { ...mouseMove, x: 3, y: 8 });
+    assertEquals(component.hoveredRow.peek(), undefined);
+
+    destroy();
+  });
+
+  await t.step("Table sorting, resizing and filtering", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new Table({
+        parent: tui,
+        charMap: "sharp",
+        headers: [{ title: "ID" }, { title: "Name" }],
+        data: [
+          ["0", "Thomas"],
+          ["1", "Jeremy"],
+          ["2", "Julianne"],
+        ],
+        theme: { base: sgr("37"), frame: { base: red }, header: { base: bold }, selectedRow: { base: bgBlue } },
+        rectangle: { column: 0, row: 0, height: 7 },
+        zIndex: 0,
+      }), { columns: 20, rows: 8 });
+
+    const names = () => component.visibleRows.peek().map((row) => row?.[1]);
+    const mousePress = (x: number, y: number, drag = false, release = false) =>
+      tui.emit("mousePress", {
+        key: "mouse",
+        buffer: new Uint8Array(),
+        x,
+        y,
+        movementX: 0,
+        movementY: 0,
+        button: release ? undefined : 0,
+        drag,
+        release,
+        ctrl: false,
+        meta: false,
+        shift: false,
+      });
+
+    tui.focusManager.focus(component);
+    tui.emit("keyPress", decodeKey(textEncoder.encode("2"), "2"));
+    assertEquals(component.sort.peek(), { column: 1, direction: "ascending" });
+    assertEquals(names(), ["Jeremy", "Julianne", "Thomas"]);
+
+    mousePress(5, 1);
+    assertEquals(component.sort.peek(), { column: 1, direction: "descending" });
+    assertEquals(names(), ["Thomas", "Julianne", "Jeremy"]);
+    await assertSnapshot(t, await snapshot(true));
+
+    mousePress(5, 1);
+    assertEquals(component.sort.peek(), undefined);
+    assertEquals(names(), ["Thomas", "Jeremy", "Julianne"]);
+
+    // Dragging separator after "ID" header
+    mousePress(3, 1);
+    mousePress(5, 1, true);
+    mousePress(5, 1, false, true);
+    assertEquals(component.headers.peek()[0].width, 4);
+
+    component.filter.value = "ju";
+    assertEquals(names(), ["Julianne"]);
+    await assertSnapshot(t, await snapshot(true));
+
+    destroy();
+  });
+
+  await t.step("Table selection", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new Table({
+        parent: tui,
+        charMap: "sharp",
+        cellCursor: true,
+        headers: [{ title: "ID" }, { title: "Name" }],
+        data: [
+          ["0", "Thomas"],
+          ["1", "Jeremy"],
+          ["2", "Julianne"],
+          ["3", "Tommie"],
+        ],
+        theme: {
+          base: sgr("37"),
+          frame: { base: red },
+          header: { base: bold },
+          selectedRow: { base: bgBlue },
+          selectedCell: { base: bgYellow },
+        },
+        rectangle: { column: 0, row: 0, height: 8 },
+        zIndex: 0,
+      }), { columns: 20, rows: 8 });
+
+    const pressKey = (code: string) => tui.emit("keyPress", decodeKey(textEncoder.encode(code), code));
+    tui.focusManager.focus(component);
+
+    pressKey("\x1b[1;2B");
+    pressKey("\x1b[1;2B");
+    assertEquals(component.selectedRow.peek(), 2);
+    assertEquals([...component.selectedRows.peek()], [0, 1, 2]);
+
+    tui.emit("mouseEvent", {
+      key: "mouse",
+      buffer: new Uint8Array(),
+      x: 1,
+      y: 3,
+      movementX: 0,
+      movementY: 0,
+      button: 0,
+      drag: false,
+      release: false,
+      ctrl: true,
+      meta: false,
+      shift: false,
+    });
+    assertEquals(component.selectedRow.peek(), 0);
+    assertEquals([...component.selectedRows.peek()].sort(), [1, 2]);
+
+    pressKey("\x1b[C");
+    assertEquals(component.selectedColumn.peek(), 1);
+    await assertSnapshot(t, await snapshot(true));
+
+    pressKey("\x1b[B");
+    assertEquals([...component.selectedRows.peek()], [1]);
+
+    destroy();
+  });
+
+  await t.step("Table with data source", async (t) => {
+    const requestedRows: number[] = [];
+    const dataSource = {
+      rowCount: 100_000,
+      getRow(index: number) {
+        requestedRows.push(index);
+        const row = [`${index}`, `Row ${index}`];
+        return index % 2 ? Promise.resolve(row) : row;
+      },
+    };
+
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new Table({
+        parent: tui,
+        charMap: "sharp",
+        headers: [{ title: "ID" }, { title: "Name" }],
+        data: dataSource,
+        theme: { base: sgr("37"), frame: { base: red }, header: { base: bold }, selectedRow: { base: bgBlue } },
+        rectangle: { column: 0, row: 0, height: 7 },
+        zIndex: 0,
+      }), { columns: 20, rows: 8 });
+
+    assertEquals(requestedRows, [0, 1, 2]);
+    assertEquals(component.visibleRows.peek(), [["0", "Row 0"], ["1", "Row 1"], ["2", "Row 2"]]);
+
+    tui.focusManager.focus(component);
+    tui.emit("keyPress", decodeKey(textEncoder.encode("\x1b[F"), "\x1b[F"));
+    assertEquals(component.selectedRow.peek(), 99_999);
+    assertEquals(component.offsetRow.peek(), 99_997);
+    assertEquals(component.visibleRows.peek()[2], undefined);
+
+    await Promise.resolve();
+    await assertSnapshot(t, await snapshot(true));
+
+    dataSource.rowCount = 2;
+    component.refresh();
+    assertEquals(component.rowCount.peek(), 2);
+
+    destroy();
+  });
+
+  await t.step("Table with failing and outdated queries", async () => {
+    const pendingQueries: Record<string, { resolve: () => void; reject: (error: Error) => void }> = {};
+    const dataSource = {
+      rowCount: 10,
+      getRow: (index: number) => [`${index}`],
+      query(_sort: unknown, filter: string) {
+        if (filter === "throw") throw new Error("Query failed");
+        return new Promise<void>((resolve, reject) => {
+          pendingQueries[filter] = { resolve, reject };
+        });
+      },
+    };
+
+    const { component, destroy } = await mountComponent((tui) =>
+      new Table({
+        parent: tui,
+        charMap: "sharp",
+        headers: [{ title: "ID" }],
+        data: dataSource,
+        theme: { frame: {}, header: {}, selectedRow: {} },
+        rectangle: { column: 0, row: 0, height: 7 },
+        zIndex: 0,
+      }), { columns: 20, rows: 8 });
+
+    // Synchronous throw doesn't escape filter's subscription
+    dataSource.rowCount = 5;
+    component.filter.value = "throw";
+    await Promise.resolve();
+    assertEquals(component.rowCount.peek(), 10);
+
+    // Rejected query doesn't refresh the table
+    component.filter.value = "reject";
+    pendingQueries.reject.reject(new Error("Query failed"));
+    await Promise.resolve();
+    await Promise.resolve();
+    assertEquals(component.rowCount.peek(), 10);
+
+    // Response to outdated query gets ignored
+    component.filter.value = "a";
+    component.filter.value = "ab";
+    pendingQueries.ab.resolve();
+    await Promise.resolve();
+    await Promise.resolve();
+    assertEquals(component.rowCount.peek(), 5);
+
+    dataSource.rowCount = 3;
+    pendingQueries.a.resolve();
+    await Promise.resolve();
+    await Promise.resolve();
+    assertEquals(component.rowCount.peek(), 5);
+
+    destroy();
+  });
+
+  await t.step("Text", async (t) => {
+    const { snapshot, destroy } = await mountComponent((tui) =>
+      new Text({
+        parent: tui,
+        text: "Hello テク 👀!",
+        multiCodePointSupport: true,
+        theme: { base: red },
+        rectangle: { column: 1, row: 1 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("TextBox", async (t) => {
+    const { snapshot, destroy } = await mountComponent((tui) =>
+      new TextBox({
+        parent: tui,
+        text: "first\nsecond\nthird",
+        lineNumbering: true,
+        theme: { base: bgBlue, cursor: { base: bgYellow }, lineNumbers: { base: bold } },
+        rectangle: { column: 1, row: 1, width: 10, height: 3 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    destroy();
+  });
+
+  await t.step("TextBox selection and history", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new TextBox({
+        parent: tui,
+        text: "a = 1\nb = 2",
+        theme: { base: bgBlue, cursor: { base: bgYellow }, selection: { base: bgGreen } },
+        rectangle: { column: 1, row: 1, width: 10, height: 3 },
+        zIndex: 0,
+      })
+    );
+
+    const parser = new InputParser(tui);
+    const pressKey = (code: string) => {
+      parser.feed(textEncoder.encode(code));
+      parser.flush();
+    };
+    tui.focusManager.focus(component);
+
+    pressKey("\x1b[1;2B");
+    pressKey("\x1b[1;2C");
+    assertEquals(component.selectedText(), "a = 1\nb");
+    await assertSnapshot(t, await snapshot(true));
+
+    // Ctrl+C, End, Ctrl+V
+    pressKey("\x03");
+    pressKey("\x1b[F");
+    pressKey("\x16");
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\nb");
+    assertEquals(component.cursorPosition.peek(), { x: 1, y: 2 });
+
+    pressKey("x");
+    pressKey("y");
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\nbxy");
+
+    // Characters which aren't keys get typed in too
+    pressKey("ż");
+    pressKey("日本");
+    pressKey("e\u0301");
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\nbxyż日本é");
+
+    // Ctrl+Z undoes typed characters at once
+    pressKey("\x1a");
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\nb");
+    pressKey("\x1a");
+    assertEquals(component.text.peek(), "a = 1\nb = 2");
+    assertEquals(component.cursorPosition.peek(), { x: 5, y: 1 });
+
+    // Ctrl+Y
+    pressKey("\x19");
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\nb");
+
+    // Shift+Home, Ctrl+X
+    pressKey("\x1b[1;2H");
+    pressKey("\x18");
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\n");
+    assertEquals(component.selectedText(), "");
+
+    // Pasted text gets inserted and undone at once
+    tui.emit("paste", { text: "c = 3\rd = 4" });
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\nc = 3\nd = 4");
+    pressKey("\x1a");
+    assertEquals(component.text.peek(), "a = 1\nb = 2a = 1\n");
+
+    destroy();
+  });
+
+  await t.step("TextBox scrolling", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new TextBox({
+        parent: tui,
+        text: "one\ntwo\nthree\nfour\nfive is the longest line\nsix",
+        lineNumbering: true,
+        scrollbar: true,
+        theme: {
+          base: bgBlue,
+          cursor: { base: bgYellow },
+          lineNumbers: { base: bold },
+          thumb: { base: bgGreen },
+        },
+        rectangle: { column: 1, row: 1, width: 10, height: 3 },
+        zIndex: 0,
+      })
+    );
+
+    const pressKey = (code: string) => tui.emit("keyPress", decodeKey(textEncoder.encode(code), code));
+    tui.focusManager.focus(component);
+
+    for (let i = 0; i < 4; ++i) pressKey("\x1b[B");
+    pressKey("\x1b[F");
+    assertEquals({ ...component.offset.peek() }, { columns: 17, rows: 2 });
+    await assertSnapshot(t, await snapshot(true));
+
+    const scroll = (scroll: 1 | -1, shift = false) =>
+      tui.emit("mouseScroll", {
+        key: "mouse",
+        buffer: new Uint8Array(),
+        x: 2,
+        y: 2,
+        movementX: 0,
+        movementY: 0,
+        drag: false,
+        scroll,
+        ctrl: false,
+        meta: false,
+        shift,
+      });
+
+    scroll(-1);
+    scroll(-1);
+    scroll(-1);
+    scroll(-1, true);
+    assertEquals({ ...component.offset.peek() }, { columns: 16, rows: 0 });
+    assertEquals(component.drawnObjects.cursor.text.peek(), "");
+    await assertSnapshot(t, await snapshot(true));
+
+    // Moving cursor scrolls it back into view
+    pressKey("\x1b[D");
+    assertEquals({ ...component.offset.peek() }, { columns: 16, rows: 2 });
+
+    destroy();
+  });
+
+  await t.step("TextBox with syntax highlighting", async (t) => {
+    const tokenizedLines: string[] = [];
+    const tokenizer: Tokenizer<string> = (line, state) => {
+      tokenizedLines.push(line);
+      return jsonTokenizer(line, state);
+    };
+
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new TextBox({
+        parent: tui,
+        text: '{\n  "a": 1,\n  "b": null\n}',
+        tokenizer,
+        theme: {
+          base: bgBlack,
+          cursor: { base: bgYellow },
+          syntax: { key: { base: red }, number: { base: bold }, keyword: { base: sgr("32") } },
+        },
+        rectangle: { column: 1, row: 0, width: 12, height: 4 },
+        zIndex: 0,
+      })
+    );
+
+    await assertSnapshot(t, await snapshot(true));
+    assertEquals(tokenizedLines, ["{", '  "a": 1,', '  "b": null', "}"]);
+
+    const parser = new InputParser(tui);
+    const pressKey = (code: string) => {
+      parser.feed(textEncoder.encode(code));
+      parser.flush();
+    };
+    tui.focusManager.focus(component);
+    tokenizedLines.length = 0;
+
+    pressKey("\x1b[B");
+    pressKey("\x1b[F");
+    pressKey("\x1b[D");
+    pressKey("2");
+    assertEquals(tokenizedLines, ['  "a": 12,']);
+    await assertSnapshot(t, await snapshot(true));
+
+    destroy();
+  });
+
+  await t.step("Tree", async (t) => {
+    const { tui, component, snapshot, destroy } = await mountComponent((tui) =>
+      new Tree({
+        parent: tui,
+        charMap: "rounded",
+        nodes: [
+          {
+            label: "src",
+            expanded: true,
+            children: [
+              { label: "mod.ts" },
+              {
+                label: "components",
+                loadChildren: () => Promise.resolve([{ label: "box.ts" }, { label: "tree.ts" }]),
+              },
+            ],
+          },
+          { label: "README.md" },
+        ],
+        theme: { base: sgr("37"), guides: { base: red }, selectedNode: { base: bgBlue } },
+        rectangle: { column: 0, row: 0, width: 18, height: 5 },
+        zIndex: 0,
+      }), { columns: 20, rows: 6 });
+
+    await assertSnapshot(t, await snapshot(true));
+
+    const pressKey = (code: string) => tui.emit("keyPress", decodeKey(textEncoder.encode(code), code));
+    tui.focusManager.focus(component);
+
+    pressKey("\x1b[B");
+    pressKey("\x1b[F");
+    pressKey("\x1b[A");
+    const components = component.selectedNode.peek()!;
+    assertEquals(components.label.peek(), "components");
+
+    pressKey("\x1b[C");
+    assertEquals(components.loading.peek(), true);
+    await components.expand();
+    assertEquals(component.rows.peek().map(({ node }) => node.label.peek()), [
+      "src",
+      "mod.ts",
+      "components",
+      "box.ts",
+      "tree.ts",
+      "README.md",
+    ]);
+
+    pressKey("\x1b[C");
+    pressKey("\x1b[B");
+    assertEquals(component.selectedNode.peek()?.label.peek(), "tree.ts");
+    assertEquals(component.offsetRow.peek(), 0);
+    pressKey("\x1b[B");
+    assertEquals(component.offsetRow.peek(), 1);
+    await assertSnapshot(t, await snapshot(true));
+
+    // Collapsing ancestor of the selected node moves selection to it
+    pressKey("\x1b[D");
+    pressKey("\x1b[A");
+    assertEquals(component.selectedNode.peek()?.label.peek(), "tree.ts");
+    components.collapse();
+    assertEquals(component.selectedNode.peek(), components);
+    assertEquals(component.rows.peek().length, 4);
+
+    pressKey("\x1b[D");
+    assertEquals(component.selectedNode.peek()?.label.peek(), "src");
+
+    // Removed nodes stop being watched and get detached
+    const [src, readme] = component.nodes.peek();
+    const mod = src.children.peek()![0];
+    component.nodes.value = [src];
+    src.children.value = src.children.peek()!.slice(1);
+    assertEquals(readme.label.subscriptions?.size, 0);
+    assertEquals(mod.label.subscriptions?.size, 0);
+    assertEquals(mod.parent, undefined);
+    assertEquals(components.parent, src);
+
+    const rows = component.rows.peek();
+    mod.label.value = "main.ts";
+    assertEquals(component.rows.peek() === rows, true);
+
+    // Destroyed tree stops watching its nodes
+    destroy();
+    components.expanded.value = true;
+    assertEquals(component.rows.peek().length, 2);
+  });
+});
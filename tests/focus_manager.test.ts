@@ -0,0 +1,188 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Tui } from "../src/tui.ts";
+import { Component } from "../src/component.ts";
+import { Box } from "../src/components/box.ts";
+import { Button } from "../src/components/button.ts";
+import { ComboBox } from "../src/components/combobox.ts";
+import { Signal } from "../src/signals/mod.ts";
+import { handleKeyboardControls } from "../src/controls.ts";
+import { VirtualTerminal } from "../src/virtual_terminal.ts";
+import { decodeKey } from "../src/input_reader/decoders/keyboard.ts";
+import { assertEquals } from "./deps.ts";
+
+const textEncoder = new TextEncoder();
+
+function createTui(): Tui {
+  const terminal = new VirtualTerminal({ size: { columns: 20, rows: 10 } });
+  return new Tui({ stdin: terminal, stdout: terminal, size: terminal.size });
+}
+
+function createButton(parent: Tui | Component, row: number, tabIndex?: number): Button {
+  return new Button({
+    parent,
+    tabIndex,
+    theme: {},
+    rectangle: { column: 0, row, width: 5, height: 1 },
+    zIndex: 0,
+  });
+}
+
+function pressKey(tui: Tui, code: string): void {
+  tui.emit("keyPress", decodeKey(textEncoder.encode(code), code));
+}
+
+Deno.test("focus_manager.ts", async (t) => {
+  await t.step("focusOrder()", async () => {
+    const tui = createTui();
+
+    const a = createButton(tui, 0);
+    const b = createButton(tui, 1, 2);
+    const c = createButton(tui, 2, 1);
+    const d = createButton(tui, 3, -1);
+    const e = createButton(tui, 4);
+    const hidden = createButton(tui, 5);
+    const disabled = createButton(tui, 6);
+
+    await Promise.resolve();
+
+    hidden.visible.value = false;
+    disabled.state.value = "disabled";
+
+    assertEquals(tui.focusManager.focusOrder(), [c, b, a, e]);
+    assertEquals(tui.focusManager.isFocusable(d), true);
+
+    tui.destroy();
+  });
+
+  await t.step("focus()", async () => {
+    const tui = createTui();
+    const { focusManager } = tui;
+
+    const a = createButton(tui, 0);
+    const b = createButton(tui, 1);
+
+    await Promise.resolve();
+
+    const events: string[] = [];
+    const log = (type: string) => (component: Component) => {
+      events.push(`${type} ${component === a ? "a" : "b"}`);
+    };
+    a.on("focus", log("focus"));
+    a.on("blur", log("blur"));
+    b.on("focus", log("focus"));
+    b.on("blur", log("blur"));
+
+    focusManager.focus(a);
+    assertEquals(a.state.peek(), "focused");
+
+    focusManager.focus(b);
+    assertEquals(a.state.peek(), "base");
+    assertEquals(b.state.peek(), "focused");
+
+    b.destroy();
+    assertEquals(focusManager.focused.peek(), undefined);
+
+    assertEquals(events, ["focus a", "blur a", "focus b", "blur b"]);
+
+    tui.destroy();
+  });
+
+  await t.step("Tab and Shift+Tab", async () => {
+    const tui = createTui();
+    const { focusManager } = tui;
+    handleKeyboardControls(tui);
+
+    const a = createButton(tui, 0);
+    const b = createButton(tui, 1);
+    const c = createButton(tui, 2);
+
+    await Promise.resolve();
+
+    pressKey(tui, "\t");
+    assertEquals(focusManager.focused.peek(), a);
+    pressKey(tui, "\t");
+    pressKey(tui, "\t");
+    assertEquals(focusManager.focused.peek(), c);
+    pressKey(tui, "\t");
+    assertEquals(focusManager.focused.peek(), a);
+
+    pressKey(tui, "\x1b[Z");
+    assertEquals(focusManager.focused.peek(), c);
+    pressKey(tui, "\x1b[Z");
+    assertEquals(focusManager.focused.peek(), b);
+
+    tui.destroy();
+  });
+
+  await t.step("focus scopes", async () => {
+    const tui = createTui();
+    const { focusManager } = tui;
+    handleKeyboardControls(tui);
+
+    const outside = createButton(tui, 0);
+
+    const focusScope = new Signal(false);
+    const dialog = new Box({
+      parent: tui,
+      focusScope,
+      theme: {},
+      rectangle: { column: 0, row: 1, width: 5, height: 2 },
+      zIndex: 1,
+    });
+    const a = createButton(dialog, 1);
+    const b = createButton(dialog, 2);
+
+    await Promise.resolve();
+
+    focusManager.focus(outside);
+
+    focusScope.value = true;
+    assertEquals(focusManager.focused.peek(), a);
+    assertEquals(focusManager.isInScope(outside), false);
+
+    pressKey(tui, "\t");
+    assertEquals(focusManager.focused.peek(), b);
+    pressKey(tui, "\t");
+    assertEquals(focusManager.focused.peek(), a);
+    pressKey(tui, "\x1b[1;5A");
+    assertEquals(focusManager.focused.peek(), a);
+
+    focusScope.value = false;
+    assertEquals(focusManager.focused.peek(), outside);
+
+    focusScope.value = true;
+    dialog.destroy();
+    assertEquals(focusManager.scopes, []);
+    assertEquals(focusManager.focused.peek(), outside);
+
+    tui.destroy();
+  });
+
+  await t.step("ComboBox traps focus while expanded", async () => {
+    const tui = createTui();
+    const { focusManager } = tui;
+
+    const comboBox = new ComboBox({
+      parent: tui,
+      items: ["one", "two"],
+      theme: {},
+      rectangle: { column: 0, row: 0, width: 5, height: 1 },
+      zIndex: 0,
+    });
+    createButton(tui, 5);
+
+    await Promise.resolve();
+
+    focusManager.focus(comboBox);
+    comboBox.expanded.value = true;
+
+    const [one, two] = Object.values(comboBox.subComponents);
+    assertEquals(focusManager.focusOrder(), [comboBox, one, two]);
+
+    focusManager.focus(two);
+    comboBox.expanded.value = false;
+    assertEquals(focusManager.focused.peek(), comboBox);
+
+    tui.destroy();
+  });
+});
@@ -0,0 +1,189 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Tui } from "../src/tui.ts";
+import { Form } from "../src/form.ts";
+import { CheckBox } from "../src/components/checkbox.ts";
+import { Input } from "../src/components/input.ts";
+import { Slider } from "../src/components/slider.ts";
+import { TextBox } from "../src/components/textbox.ts";
+import { handleKeyboardControls } from "../src/controls.ts";
+import { VirtualTerminal } from "../src/virtual_terminal.ts";
+import { InputParser } from "../src/input_reader/parser.ts";
+import { assertEquals } from "./deps.ts";
+
+const textEncoder = new TextEncoder();
+
+function pressKey(tui: Tui, code: string): void {
+  const parser = new InputParser(tui);
+  parser.feed(textEncoder.encode(code));
+  parser.flush();
+}
+
+function createForm() {
+  const terminal = new VirtualTerminal({ size: { columns: 20, rows: 10 } });
+  const tui = new Tui({ stdin: terminal, stdout: terminal, size: terminal.size });
+  handleKeyboardControls(tui);
+
+  // Components are created in different order than fields get declared
+  const newsletter = new CheckBox({
+    parent: tui,
+    checked: false,
+    theme: {},
+    rectangle: { column: 0, row: 2, width: 1, height: 1 },
+    zIndex: 0,
+  });
+
+  const age = new Slider({
+    parent: tui,
+    min: 0,
+    max: 100,
+    step: 1,
+    value: 30,
+    adjustThumbSize: false,
+    orientation: "horizontal",
+    theme: { thumb: {} },
+    rectangle: { column: 0, row: 1, width: 10, height: 1 },
+    zIndex: 0,
+  });
+
+  const name = new Input({
+    parent: tui,
+    text: "Jane",
+    validate: (text) => text ? undefined : "Name is required",
+    theme: { cursor: {} },
+    rectangle: { column: 0, row: 0, width: 10 },
+    zIndex: 0,
+  });
+
+  const form = new Form({ tui });
+  form.addField("name", name);
+  form.addField("age", age);
+  form.addField("newsletter", newsletter);
+
+  return { tui, form, name, age, newsletter };
+}
+
+Deno.test("form.ts", async (t) => {
+  await t.step("values", async () => {
+    const { tui, form, name, age, newsletter } = createForm();
+    await Promise.resolve();
+
+    assertEquals(form.fieldNames, ["name", "age", "newsletter"]);
+    assertEquals({ ...form.values.peek() }, { name: "Jane", age: 30, newsletter: false });
+
+    name.text.value = "John";
+    newsletter.checked.value = true;
+    assertEquals({ ...form.values.peek() }, { name: "John", age: 30, newsletter: true });
+
+    form.values.peek().age = 40;
+    assertEquals(age.value.peek(), 40);
+
+    form.removeField("age");
+    assertEquals({ ...form.values.peek() }, { name: "John", newsletter: true });
+
+    form.destroy();
+    tui.destroy();
+  });
+
+  await t.step("validity", async () => {
+    const { tui, form, name } = createForm();
+    await Promise.resolve();
+
+    assertEquals(form.valid.peek(), true);
+    assertEquals(form.errors.peek(), {});
+
+    name.text.value = "";
+    assertEquals(form.valid.peek(), false);
+    assertEquals(form.errors.peek(), { name: "Name is required" });
+
+    name.text.value = "Jane";
+    assertEquals(form.valid.peek(), true);
+    assertEquals(form.errors.peek(), {});
+
+    form.destroy();
+    tui.destroy();
+  });
+
+  await t.step("Return, Escape and Tab", async () => {
+    const { tui, form, name, age, newsletter } = createForm();
+    await Promise.resolve();
+
+    const submitted: Record<string, unknown>[] = [];
+    let resets = 0;
+    form.on("submit", (values) => void submitted.push(values));
+    form.on("reset", () => void ++resets);
+
+    assertEquals(tui.focusManager.focusOrder(), [name, age, newsletter]);
+
+    pressKey(tui, "\t");
+    assertEquals(tui.focusManager.focused.peek(), name);
+
+    pressKey(tui, "a");
+    pressKey(tui, "\r");
+    assertEquals(submitted, [{ name: "aJane", age: 30, newsletter: false }]);
+
+    pressKey(tui, "\x1b");
+    assertEquals(resets, 1);
+    assertEquals(name.text.peek(), "Jane");
+
+    // Invalid form doesn't get submitted
+    name.text.value = "";
+    pressKey(tui, "\r");
+    assertEquals(submitted.length, 1);
+
+    // Return interacts with other fields instead of submitting the form
+    pressKey(tui, "\t");
+    pressKey(tui, "\t");
+    assertEquals(tui.focusManager.focused.peek(), newsletter);
+    pressKey(tui, "\r");
+    assertEquals(newsletter.checked.peek(), true);
+    assertEquals(submitted.length, 1);
+
+    form.destroy();
+    tui.destroy();
+  });
+
+  await t.step("tabIndex after removing fields", async () => {
+    const { tui, form, name, age, newsletter } = createForm();
+    await Promise.resolve();
+
+    assertEquals([name, age, newsletter].map((field) => field.tabIndex.peek()), [1, 2, 3]);
+
+    // Re-added field goes after the others instead of sharing tabIndex with one of them
+    form.removeField("name");
+    form.addField("name", name);
+    assertEquals([name, age, newsletter].map((field) => field.tabIndex.peek()), [4, 2, 3]);
+    assertEquals(tui.focusManager.focusOrder(), [age, newsletter, name]);
+
+    form.destroy();
+    tui.destroy();
+  });
+
+  await t.step("reset() keeps cursors within text", async () => {
+    const { tui, form, name } = createForm();
+    const bio = form.addField(
+      "bio",
+      new TextBox({
+        parent: tui,
+        text: "a\nb",
+        theme: { cursor: {} },
+        rectangle: { column: 0, row: 3, width: 10, height: 3 },
+        zIndex: 0,
+      }),
+    );
+    await Promise.resolve();
+
+    name.text.value = "Jane Doe";
+    name.cursorPosition.value = 8;
+    bio.text.value = "first\nsecond\nthird";
+    bio.cursorPosition.value = { x: 5, y: 2 };
+
+    form.reset();
+    assertEquals(name.text.peek(), "Jane");
+    assertEquals(name.cursorPosition.peek(), 4);
+    assertEquals(bio.text.peek(), "a\nb");
+    assertEquals({ ...bio.cursorPosition.peek() }, { x: 1, y: 1 });
+
+    form.destroy();
+    tui.destroy();
+  });
+});
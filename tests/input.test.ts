@@ -0,0 +1,86 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { handleInput } from "../src/input.ts";
+import { Tui } from "../src/tui.ts";
+import { TextBox } from "../src/components/textbox.ts";
+import { decodeKey } from "../src/input_reader/decoders/keyboard.ts";
+import { VirtualTerminal } from "../src/virtual_terminal.ts";
+import { sleep } from "../src/utils/async.ts";
+import { assertEquals } from "./deps.ts";
+
+Deno.test("input.ts", async (t) => {
+  await t.step("handleInput() emits destroy on Ctrl+C", async () => {
+    // Ctrl+C press followed by its release, Ctrl+C press in modifyOtherKeys format and Ctrl+C in legacy mode
+    const cases = [
+      ["kitty", "\x1b[99;5u\x1b[99;5:3u", 1],
+      ["modifyOtherKeys", "\x1b[27;5;99~", 1],
+      ["legacy", "\x03", 1],
+    ] as const;
+
+    for (const [keyboardProtocol, input, expected] of cases) {
+      const terminal = new VirtualTerminal({ size: { columns: 20, rows: 10 } });
+      const tui = new Tui({ stdin: terminal, stdout: terminal, size: terminal.size });
+
+      let destroyed = 0;
+      tui.on("destroy", () => void destroyed++);
+
+      const reading = handleInput(tui, { keyboardProtocol });
+      terminal.pushInput(input);
+      terminal.close();
+      await reading;
+
+      assertEquals(destroyed, expected, keyboardProtocol);
+    }
+  });
+
+  await t.step("handleInput() leaves Ctrl+C to focused component capturing it", async () => {
+    const terminal = new VirtualTerminal({ size: { columns: 20, rows: 10 } });
+    const tui = new Tui({ stdin: terminal, stdout: terminal, size: terminal.size });
+
+    const textBox = new TextBox({
+      parent: tui,
+      text: "hello",
+      theme: { cursor: {} },
+      rectangle: { column: 0, row: 0, width: 10, height: 2 },
+      zIndex: 0,
+    });
+    // Dependency tracking is asynchronous
+    await Promise.resolve();
+    tui.focusManager.focus(textBox);
+
+    let destroyed = 0;
+    tui.on("destroy", () => void destroyed++);
+
+    // Shift+End, Ctrl+C, End, Ctrl+V, Ctrl+Z, Ctrl+Y
+    const reading = handleInput(tui);
+    terminal.pushInput("\x1b[1;2F\x03\x1b[F\x16\x1a\x19");
+    terminal.close();
+    await reading;
+
+    assertEquals(destroyed, 0);
+    assertEquals(textBox.text.peek(), "hellohello");
+
+    // Ctrl+C closes the Tui once nothing captures it
+    tui.focusManager.focus(undefined);
+    tui.emit("keyPress", decodeKey(new Uint8Array([3]), "\x03"));
+    assertEquals(destroyed, 1);
+  });
+
+  await t.step("handleInput() with escape timeout", async () => {
+    const terminal = new VirtualTerminal({ size: { columns: 20, rows: 10 } });
+    const tui = new Tui({ stdin: terminal, stdout: terminal, size: terminal.size });
+
+    const keys: string[] = [];
+    tui.on("keyPress", ({ key }) => void keys.push(key));
+
+    const reading = handleInput(tui, { escapeTimeout: 1000 });
+
+    // Lone ESC would have already been emitted with the default timeout
+    terminal.pushInput("\x1b");
+    await sleep(100);
+    assertEquals(keys, []);
+
+    terminal.close();
+    await reading;
+    assertEquals(keys, ["escape"]);
+  });
+});
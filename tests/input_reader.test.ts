@@ -0,0 +1,55 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { EventEmitter } from "../src/event_emitter.ts";
+import { emitInputEvents, InputEventRecord } from "../src/input_reader/mod.ts";
+import { VirtualTerminal } from "../src/virtual_terminal.ts";
+import { sleep } from "../src/utils/async.ts";
+import { assertEquals } from "./deps.ts";
+
+Deno.test("input_reader/mod.ts", async (t) => {
+  await t.step("emitInputEvents() with bracketed paste", async () => {
+    const terminal = new VirtualTerminal();
+    const emitter = new EventEmitter<InputEventRecord>();
+
+    const events: string[] = [];
+    emitter.on("keyPress", ({ key }) => void events.push(`key:${key}`));
+    emitter.on("paste", ({ text }) => void events.push(`paste:${text}`));
+
+    // Paste spans multiple reads and its end sequence gets split between them
+    terminal.pushInput("a\x1b[200~hello\r\x1b[A");
+    terminal.pushInput("wor");
+    terminal.pushInput("ld\x1b[20");
+    terminal.pushInput("1~b");
+    terminal.pushInput("\x1b[200~zażółć\x1b[201~");
+    terminal.close();
+
+    await emitInputEvents(terminal, emitter, 0);
+
+    assertEquals(events, ["key:a", "paste:hello\r\x1b[Aworld", "key:b", "paste:zażółć"]);
+  });
+
+  await t.step("emitInputEvents() with escape timeout", async () => {
+    const terminal = new VirtualTerminal();
+    const emitter = new EventEmitter<InputEventRecord>();
+
+    const events: string[] = [];
+    emitter.on("keyPress", ({ key, meta }) => void events.push(`${meta ? "meta+" : ""}${key}`));
+
+    const reading = emitInputEvents(terminal, emitter, 0, 20);
+
+    // Lone ESC gets emitted once timeout passes
+    terminal.pushInput("\x1b");
+    await sleep(60);
+    assertEquals(events, ["escape"]);
+
+    // Sequence split between reads gets finished before the timeout
+    terminal.pushInput("\x1b");
+    terminal.pushInput("[A");
+    terminal.pushInput("\x1b");
+    terminal.pushInput("b");
+    terminal.close();
+
+    await reading;
+
+    assertEquals(events, ["escape", "up", "meta+b"]);
+  });
+});
@@ -0,0 +1,56 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { decodeKey } from "../../../src/input_reader/decoders/keyboard.ts";
+import { assertEquals } from "../../deps.ts";
+
+const textEncoder = new TextEncoder();
+
+/** Decode {code} and return copy of the event without its buffer, since event object gets reused */
+function decode(code: string) {
+  const { buffer: _, ...keyPress } = decodeKey(textEncoder.encode(code), code);
+  return keyPress;
+}
+
+const noModifiers = { meta: false, ctrl: false, shift: false, alt: false, super: false, repeat: false, release: false };
+
+Deno.test("input_reader/decoders/keyboard.ts", async (t) => {
+  await t.step("decodeKey() with legacy sequences", () => {
+    assertEquals(decode("a"), { ...noModifiers, key: "a" });
+    assertEquals(decode("A"), { ...noModifiers, key: "A", shift: true });
+    assertEquals(decode("\x01"), { ...noModifiers, key: "a", ctrl: true });
+    assertEquals(decode("\x1ba"), { ...noModifiers, key: "a", meta: true, alt: true });
+    assertEquals(decode("\x1b"), { ...noModifiers, key: "escape" });
+    assertEquals(decode("\r"), { ...noModifiers, key: "return" });
+
+    assertEquals(decode("\x1b[A"), { ...noModifiers, key: "up" });
+    assertEquals(decode("\x1b[1;6A"), { ...noModifiers, key: "up", ctrl: true, shift: true });
+    assertEquals(decode("\x1b[1;3D"), { ...noModifiers, key: "left", meta: true, alt: true });
+    assertEquals(decode("\x1b[Z"), { ...noModifiers, key: "tab", shift: true });
+    assertEquals(decode("\x1bOQ"), { ...noModifiers, key: "f2" });
+    assertEquals(decode("\x1bO5P"), { ...noModifiers, key: "f1", ctrl: true });
+    assertEquals(decode("\x1b[3;5~"), { ...noModifiers, key: "delete", ctrl: true });
+    assertEquals(decode("\x1b[15;9~"), { ...noModifiers, key: "f5", super: true });
+    assertEquals(decode("\x1b[25~"), { ...noModifiers, key: "f13" });
+    assertEquals(decode("\x1bOp"), { ...noModifiers, key: "kp0" });
+    assertEquals(decode("\x1bOM"), { ...noModifiers, key: "kpenter" });
+  });
+
+  await t.step("decodeKey() with kitty keyboard protocol", () => {
+    assertEquals(decode("\x1b[97;5u"), { ...noModifiers, key: "a", ctrl: true });
+    assertEquals(decode("\x1b[97;6u"), { ...noModifiers, key: "a", ctrl: true, shift: true });
+    assertEquals(decode("\x1b[27u"), { ...noModifiers, key: "escape" });
+    assertEquals(decode("\x1b[13;3u"), { ...noModifiers, key: "return", meta: true, alt: true });
+    assertEquals(decode("\x1b[97;1:2u"), { ...noModifiers, key: "a", repeat: true });
+    assertEquals(decode("\x1b[97;1:3u"), { ...noModifiers, key: "a", release: true });
+    assertEquals(decode("\x1b[1;5:3A"), { ...noModifiers, key: "up", ctrl: true, release: true });
+    assertEquals(decode("\x1b[57376u"), { ...noModifiers, key: "f13" });
+    assertEquals(decode("\x1b[57399;2u"), { ...noModifiers, key: "kp0", shift: true });
+    assertEquals(decode("\x1b[57413u"), { ...noModifiers, key: "kpadd" });
+    assertEquals(decode("\x1b[233;33u"), { ...noModifiers, key: "é", meta: true });
+  });
+
+  await t.step("decodeKey() with modifyOtherKeys", () => {
+    assertEquals(decode("\x1b[27;6;97~"), { ...noModifiers, key: "a", ctrl: true, shift: true });
+    assertEquals(decode("\x1b[27;5;9~"), { ...noModifiers, key: "tab", ctrl: true });
+    assertEquals(decode("\x1b[27;3;49~"), { ...noModifiers, key: "1", meta: true, alt: true });
+  });
+});
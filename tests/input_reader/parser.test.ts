@@ -0,0 +1,141 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { EventEmitter } from "../../src/event_emitter.ts";
+import { InputEventRecord } from "../../src/input_reader/mod.ts";
+import { InputParser } from "../../src/input_reader/parser.ts";
+import { assertEquals } from "../deps.ts";
+
+const textEncoder = new TextEncoder();
+
+/** Returns parser along with list of events it emitted, serialized as they get emitted since event objects get reused */
+function createParser(): { parser: InputParser; events: string[] } {
+  const emitter = new EventEmitter<InputEventRecord>();
+  const events: string[] = [];
+
+  emitter.on("keyPress", ({ key, ctrl, meta, shift }) => {
+    events.push(`${ctrl ? "ctrl+" : ""}${meta ? "meta+" : ""}${shift ? "shift+" : ""}${key}`);
+  });
+  emitter.on("mouseEvent", (event) => {
+    if ("scroll" in event) events.push(`mouse:${event.x},${event.y}:scroll:${event.scroll}`);
+    else if ("button" in event) events.push(`mouse:${event.x},${event.y}:button:${event.button}`);
+  });
+  emitter.on("mouseMove", ({ x, y }) => void events.push(`mouse:${x},${y}:move`));
+  emitter.on("paste", ({ text }) => void events.push(`paste:${text}`));
+  emitter.on("textInput", ({ text }) => void events.push(`text:${text}`));
+
+  return { parser: new InputParser(emitter), events };
+}
+
+/** Deterministic pseudorandom number generator (mulberry32), returns numbers within [0, 1) */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const input =
+  "a\x1b[A\x1b[1;5B\x1bOP\x1b[15~\x1bb\x1b\r\x01ż\x1b[<0;10;5M\x1b[<65;3;4M\x1b[M !!\x1b[<35;5;6M\x1b[MC#$\x1b[200~x\x1by\x1b[201~\x1b\x1b[Z";
+const expected = [
+  "a",
+  "text:a",
+  "up",
+  "ctrl+down",
+  "f1",
+  "f5",
+  "meta+b",
+  "meta+return",
+  "ctrl+a",
+  "text:ż",
+  "mouse:9,4:button:0",
+  "mouse:2,3:scroll:1",
+  "mouse:0,0:button:0",
+  "mouse:4,5:move",
+  "mouse:2,3:move",
+  "paste:x\x1by",
+  "escape",
+  "shift+tab",
+];
+
+Deno.test("input_reader/parser.ts", async (t) => {
+  await t.step("feed()", () => {
+    const { parser, events } = createParser();
+    parser.feed(textEncoder.encode(input));
+    assertEquals(events, expected);
+    assertEquals(parser.state, "ground");
+  });
+
+  await t.step("feed() with text", () => {
+    const { parser, events } = createParser();
+    parser.feed(textEncoder.encode("Zaż 日本👍🏽e\u0301\r"));
+    assertEquals(events, ["shift+Z", "a", "space", "e", "text:Zaż 日本👍🏽é", "return"]);
+  });
+
+  await t.step("feed() with input split between reads", () => {
+    const bytes = textEncoder.encode(input);
+
+    for (let i = 0; i <= bytes.length; ++i) {
+      const { parser, events } = createParser();
+      parser.feed(bytes.subarray(0, i));
+      parser.feed(bytes.subarray(i));
+      assertEquals(events, expected, `split at byte ${i}`);
+    }
+
+    const { parser, events } = createParser();
+    for (let i = 0; i < bytes.length; ++i) {
+      parser.feed(bytes.subarray(i, i + 1));
+    }
+    assertEquals(events, expected);
+  });
+
+  await t.step("flush()", () => {
+    const { parser, events } = createParser();
+
+    parser.feed(textEncoder.encode("\x1b"));
+    assertEquals(parser.pending, true);
+    assertEquals(events, []);
+    parser.flush();
+    assertEquals(parser.pending, false);
+
+    parser.feed(textEncoder.encode("\x1b["));
+    parser.flush();
+
+    // Unfinished sequences get discarded
+    parser.feed(textEncoder.encode("\x1b[1;"));
+    parser.flush();
+
+    parser.feed(textEncoder.encode("\x1b[200~text"));
+    assertEquals(parser.pending, false);
+    parser.flush();
+
+    assertEquals(events, ["escape", "meta+[", "paste:text"]);
+  });
+
+  await t.step("fuzzing", () => {
+    const bytes = textEncoder.encode(input);
+
+    for (let seed = 0; seed < 200; ++seed) {
+      const rand = random(seed);
+
+      // Randomly split input always results in the same events
+      const { parser, events } = createParser();
+      for (let i = 0; i < bytes.length;) {
+        const size = Math.floor(rand() * 8);
+        parser.feed(bytes.subarray(i, i + size));
+        i += size;
+      }
+      assertEquals(events, expected, `seed ${seed}`);
+
+      // Random bytes never throw and parser always gets back to the ground state
+      const garbage = createParser();
+      const randomBytes = Uint8Array.from({ length: 64 }, () => rand() < 0.2 ? 0x1b : Math.floor(rand() * 256));
+      garbage.parser.feed(randomBytes);
+      garbage.parser.flush();
+      assertEquals(garbage.parser.state, "ground");
+
+      garbage.parser.feed(textEncoder.encode(input));
+      assertEquals(garbage.events.slice(-expected.length), expected, `seed ${seed}`);
+    }
+  });
+});
@@ -0,0 +1,168 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { Tui } from "../src/tui.ts";
+import { Component } from "../src/component.ts";
+import { VirtualTerminal } from "../src/virtual_terminal.ts";
+import { sleep } from "../src/utils/async.ts";
+import type { ConsoleSize } from "../src/types.ts";
+import { assertEquals } from "./deps.ts";
+
+/** Symbols used to mark styled cells in serialized style grid */
+const STYLE_SYMBOLS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/** Whether snapshots should be overwritten, pass `-- --update` to `deno test` to enable it */
+const UPDATE_SNAPSHOTS = Deno.args.includes("--update") || Deno.args.includes("-u");
+
+/** Amount of snapshots asserted by each test context */
+const snapshotCounts = new WeakMap<Deno.TestContext, number>();
+
+export interface MountedComponent<T extends Component> {
+  tui: Tui;
+  terminal: VirtualTerminal;
+  component: T;
+  /** Wait for pending updates and render a single frame */
+  render(): Promise<void>;
+  /** Render a single frame and serialize it using `serializeTerminal` */
+  snapshot(styles?: boolean): Promise<string>;
+  /** Destroy Tui along with mounted component */
+  destroy(): void;
+}
+
+/**
+ * Mount component created by {create} on a headless Tui and render its first frame
+ *
+ * @example
+ * ```ts
+ * const { snapshot, destroy } = await mountComponent((tui) =>
+ *   new Button({
+ *     parent: tui,
+ *     label: { text: "Hi" },
+ *     theme: { base: crayon.bgBlue },
+ *     rectangle: { column: 1, row: 1, width: 4, height: 1 },
+ *     zIndex: 0,
+ *   })
+ * );
+ *
+ * await assertSnapshot(t, await snapshot(true));
+ * destroy();
+ * ```
+ */
+export async function mountComponent<T extends Component>(
+  create: (tui: Tui) => T,
+  size: ConsoleSize = { columns: 20, rows: 5 },
+): Promise<MountedComponent<T>> {
+  const terminal = new VirtualTerminal({ size });
+
+  const tui = new Tui({
+    stdin: terminal,
+    stdout: terminal,
+    size: terminal.size,
+  });
+
+  const component = create(tui);
+
+  const render = async () => {
+    // Components get added to Tui and react to changes in microtasks
+    await sleep(0);
+    tui.canvas.render();
+  };
+
+  await render();
+
+  return {
+    tui,
+    terminal,
+    component,
+    render,
+    async snapshot(styles = false) {
+      await render();
+      return serializeTerminal(terminal, styles);
+    },
+    destroy() {
+      tui.destroy();
+      terminal.close();
+    },
+  };
+}
+
+/**
+ * Serialize {terminal}'s screen to stable text representation
+ *
+ * When {styles} is set to true text gets followed by a grid in which every styled cell
+ * gets replaced with a symbol (unstyled cells are marked as `.`) and a legend mapping symbols to SGR parameters.
+ */
+export function serializeTerminal(terminal: VirtualTerminal, styles = false): string {
+  const { cells } = terminal;
+  let serialized = terminal.text();
+
+  if (!styles) return serialized + "\n";
+
+  const symbols = new Map<string, string>();
+  let styleGrid = "";
+
+  for (const row of cells) {
+    for (const { style } of row) {
+      if (!style) {
+        styleGrid += ".";
+        continue;
+      }
+
+      let symbol = symbols.get(style);
+      if (!symbol) {
+        symbol = STYLE_SYMBOLS[symbols.size] ?? "?";
+        symbols.set(style, symbol);
+      }
+
+      styleGrid += symbol;
+    }
+    styleGrid += "\n";
+  }
+
+  serialized += "\n\n" + styleGrid;
+
+  for (const [style, symbol] of symbols) {
+    serialized += `\n${symbol}: ${style}`;
+  }
+
+  return serialized + "\n";
+}
+
+/**
+ * Compare {actual} against snapshot stored in `__snapshots__` directory next to the test file.
+ *
+ * Snapshot file name is derived from step names and number of snapshots asserted so far in {t}.
+ * Missing snapshots fail the test, run `deno test -A -- --update` to create or overwrite them.
+ */
+export async function assertSnapshot(t: Deno.TestContext, actual: string): Promise<void> {
+  const testFile = t.origin.slice(t.origin.lastIndexOf("/") + 1).replace(/\.test\.ts$/, "");
+
+  let name = "";
+  for (let context: Deno.TestContext | undefined = t; context; context = context.parent) {
+    if (!context.parent) break;
+    name = context.name + (name ? "-" + name : "");
+  }
+  name ||= t.name;
+
+  const count = (snapshotCounts.get(t) ?? 0) + 1;
+  snapshotCounts.set(t, count);
+
+  const snapshotUrl = new URL(
+    `./__snapshots__/${testFile}/${name.replace(/[^\w-]+/g, "_")}-${count}.snap`,
+    t.origin,
+  );
+
+  if (UPDATE_SNAPSHOTS) {
+    await Deno.mkdir(new URL(".", snapshotUrl), { recursive: true });
+    await Deno.writeTextFile(snapshotUrl, actual);
+    return;
+  }
+
+  let expected: string;
+  try {
+    expected = await Deno.readTextFile(snapshotUrl);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    throw new Error(`Missing snapshot "${snapshotUrl.pathname}", run "deno test -A -- --update" to create it`);
+  }
+
+  assertEquals(actual, expected);
+}
@@ -0,0 +1,26 @@
+// Copyright 2023 Im-Beast. MIT license.
+
+import { readClipboard, writeClipboard } from "../../src/utils/clipboard.ts";
+import { assertEquals } from "../deps.ts";
+
+const textDecoder = new TextDecoder();
+
+Deno.test("utils/clipboard.ts", async (t) => {
+  await t.step("writeClipboard()", () => {
+    let written = "";
+    const stdout = {
+      writeSync(data: Uint8Array) {
+        written += textDecoder.decode(data);
+        return data.length;
+      },
+    };
+
+    writeClipboard("zażółć", stdout);
+    assertEquals(readClipboard(), "zażółć");
+    assertEquals(written, "\x1b]52;c;emHFvMOzxYLEhw==\x07");
+
+    writeClipboard("key = value");
+    assertEquals(readClipboard(), "key = value");
+    assertEquals(written, "\x1b]52;c;emHFvMOzxYLEhw==\x07");
+  });
+});
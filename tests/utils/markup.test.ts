@@ -0,0 +1,59 @@
+// Copyright 2023 Im-Beast. MIT license.
+
+import {
+  cropMarkupToWidth,
+  markupStyle,
+  parseMarkup,
+  splitMarkupLines,
+  stringifyMarkup,
+  stripMarkup,
+  wrapMarkup,
+} from "../../src/utils/markup.ts";
+import { assertEquals } from "../deps.ts";
+
+Deno.test("utils/markup.ts", async (t) => {
+  await t.step("parseMarkup()", () => {
+    assertEquals(parseMarkup("[bold red]error[/] details"), [
+      { text: "error", tags: ["bold", "red"] },
+      { text: " details", tags: [] },
+    ]);
+
+    assertEquals(parseMarkup("[bgBlue]a[underline]b[/]c[/]"), [
+      { text: "a", tags: ["bgBlue"] },
+      { text: "b", tags: ["bgBlue", "underline"] },
+      { text: "c", tags: ["bgBlue"] },
+    ]);
+
+    // Unknown tags and escaped brackets are kept as text
+    assertEquals(parseMarkup("[1/2] \\[bold] [constructor]"), [
+      { text: "[1/2] [bold] [constructor]", tags: [] },
+    ]);
+  });
+
+  await t.step("stringifyMarkup()", () => {
+    const markup = "[bold]a[lightRed]b[/][/] \\[c]";
+    assertEquals(stringifyMarkup(parseMarkup(markup)), "[bold]a[/][bold lightRed]b[/] \\[c]");
+    assertEquals(stripMarkup(markup), "ab [c]");
+  });
+
+  await t.step("cropMarkupToWidth()", () => {
+    assertEquals(cropMarkupToWidth("[red]abc[/]def", 2), "[red]ab[/]");
+    assertEquals(cropMarkupToWidth("[red]abc[/]def", 4), "[red]abc[/]d");
+    assertEquals(cropMarkupToWidth("a[red]テク[/]", 2), "a[red] [/]");
+  });
+
+  await t.step("splitMarkupLines()", () => {
+    assertEquals(splitMarkupLines("[bold]one\ntwo[/] three\nfour"), ["[bold]one[/]", "[bold]two[/] three", "four"]);
+  });
+
+  await t.step("wrapMarkup()", () => {
+    assertEquals(wrapMarkup("[red]one two[/] three", 7, true), ["[red]one two[/]", "three"]);
+    assertEquals(wrapMarkup("[bold]abc[red]de[/][/]", 4), ["[bold]abc[/][bold red]d[/]", "[bold red]e[/]"]);
+  });
+
+  await t.step("markupStyle()", () => {
+    assertEquals(markupStyle([]), undefined);
+    assertEquals(markupStyle(["bold", "bgLightCyan"])!("x"), "\x1b[1;106mx\x1b[0m");
+    assertEquals(markupStyle(["red"]), markupStyle(["red"]));
+  });
+});
@@ -1,6 +1,15 @@
 // Copyright 2023 Im-Beast. MIT license.
 
-import { characterWidth, insertAt, stripStyles, textWidth, UNICODE_CHAR_REGEXP } from "../../src/utils/strings.ts";
+import {
+  applyMask,
+  characterWidth,
+  ellipsize,
+  insertAt,
+  stripStyles,
+  textWidth,
+  UNICODE_CHAR_REGEXP,
+  wrapText,
+} from "../../src/utils/strings.ts";
 import { assertEquals } from "../deps.ts";
 
 const unicodeString = "♥☭👀f🌏g⚠5✌💢✅💛🌻";
@@ -38,4 +47,30 @@ Deno.test("utils/strings.ts", async (t) => {
     assertEquals(textWidth(fullWidths.join("")), fullWidths.length * 2);
     assertEquals(textWidth("Hello"), 5);
   });
+
+  await t.step("wrapText()", () => {
+    assertEquals(wrapText("abcdef\ngh", 4), ["abcd", "ef", "gh"]);
+    assertEquals(wrapText("Lorem ipsum dolor sit", 11, true), ["Lorem ipsum", "dolor sit"]);
+    assertEquals(wrapText("a verylongword b", 4, true), ["a", "very", "long", "word", "b"]);
+    assertEquals(wrapText("テクテ", 5), ["テク", "テ"]);
+    assertEquals(wrapText("👀👀👀", 4, false, true), ["👀👀", "👀"]);
+  });
+
+  await t.step("ellipsize()", () => {
+    assertEquals(ellipsize("Hello", 5), "Hello");
+    assertEquals(ellipsize("Hello there", 6), "Hello…");
+    assertEquals(ellipsize("テクテ", 4), "テ …");
+  });
+
+  await t.step("applyMask()", () => {
+    assertEquals(applyMask("20240131", "9999-99-99"), "2024-01-31");
+    assertEquals(applyMask("2024-01-31", "9999-99-99"), "2024-01-31");
+    assertEquals(applyMask("2024", "9999-99-99"), "2024");
+    assertEquals(applyMask("20x24a", "9999-99-99"), "2024");
+    assertEquals(applyMask("10.0.0.1", "999.999.999.999"), "10.0.0.1");
+    assertEquals(applyMask("192168001001", "999.999.999.999"), "192.168.001.001");
+    assertEquals(applyMask("5551234", "(999) 999-9999"), "(555) 123-4");
+    assertEquals(applyMask("ab12cd", "aa-99-**"), "ab-12-cd");
+    assertEquals(applyMask("12", "\\99"), "91");
+  });
 });
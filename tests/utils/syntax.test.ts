@@ -0,0 +1,82 @@
+// Copyright 2023 Im-Beast. MIT license.
+
+import { iniTokenizer, jsonTokenizer } from "../../src/utils/syntax.ts";
+import { assertEquals } from "../deps.ts";
+
+Deno.test("utils/syntax.ts", async (t) => {
+  await t.step("jsonTokenizer()", () => {
+    assertEquals(jsonTokenizer(`{ "a": 1.5e3, "b": [true, "x\\"y"] }`, undefined), {
+      spans: [
+        { text: "{", token: "punctuation" },
+        { text: " ", token: undefined },
+        { text: `"a"`, token: "key" },
+        { text: ":", token: "punctuation" },
+        { text: " ", token: undefined },
+        { text: "1.5e3", token: "number" },
+        { text: ",", token: "punctuation" },
+        { text: " ", token: undefined },
+        { text: `"b"`, token: "key" },
+        { text: ":", token: "punctuation" },
+        { text: " ", token: undefined },
+        { text: "[", token: "punctuation" },
+        { text: "true", token: "keyword" },
+        { text: ",", token: "punctuation" },
+        { text: " ", token: undefined },
+        { text: `"x\\"y"`, token: "string" },
+        { text: "]", token: "punctuation" },
+        { text: " ", token: undefined },
+        { text: "}", token: "punctuation" },
+      ],
+      state: "",
+    });
+
+    // Open brackets get carried over to the next line
+    const first = jsonTokenizer(`[{`, undefined);
+    assertEquals(first.state, "[{");
+    assertEquals(jsonTokenizer(`"key": "value"`, first.state).spans.map(({ token }) => token), [
+      "key",
+      "punctuation",
+      undefined,
+      "string",
+    ]);
+    assertEquals(jsonTokenizer(`"value": 1`, "[").spans[0].token, "string");
+  });
+
+  await t.step("iniTokenizer()", () => {
+    assertEquals(iniTokenizer("[section]", undefined), {
+      spans: [{ text: "[section]", token: "section" }],
+      state: undefined,
+    });
+
+    assertEquals(iniTokenizer("; comment", undefined).spans, [{ text: "; comment", token: "comment" }]);
+
+    assertEquals(iniTokenizer(`export PATH="$HOME/bin" # 2 paths`, undefined).spans, [
+      { text: "export ", token: "keyword" },
+      { text: "PATH", token: "key" },
+      { text: "=", token: "operator" },
+      { text: `"$HOME/bin"`, token: "string" },
+      { text: " ", token: undefined },
+      { text: "# 2 paths", token: "comment" },
+    ]);
+
+    assertEquals(iniTokenizer("timeout = 30 * $RETRIES", undefined).spans, [
+      { text: "timeout", token: "key" },
+      { text: " = ", token: "operator" },
+      { text: "30", token: "number" },
+      { text: " * ", token: undefined },
+      { text: "$RETRIES", token: "variable" },
+    ]);
+
+    // Quoted strings can span multiple lines
+    const first = iniTokenizer(`motd = 'hello`, undefined);
+    assertEquals(first.state, "'");
+    assertEquals(iniTokenizer(`world' # bye`, first.state), {
+      spans: [
+        { text: "world'", token: "string" },
+        { text: " ", token: undefined },
+        { text: "# bye", token: "comment" },
+      ],
+      state: undefined,
+    });
+  });
+});
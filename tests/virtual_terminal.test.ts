@@ -0,0 +1,129 @@
+// Copyright 2023 Im-Beast. MIT license.
+import { VirtualTerminal } from "../src/virtual_terminal.ts";
+import { Tui } from "../src/tui.ts";
+import { Text } from "../src/components/text.ts";
+import { emitInputEvents } from "../src/input_reader/mod.ts";
+import { KeyPressEvent } from "../src/input_reader/types.ts";
+import { moveCursor } from "../src/utils/ansi_codes.ts";
+import { assertEquals } from "./deps.ts";
+
+const textEncoder = new TextEncoder();
+
+function write(terminal: VirtualTerminal, text: string): void {
+  terminal.writeSync(textEncoder.encode(text));
+}
+
+Deno.test("virtual_terminal.ts", async (t) => {
+  await t.step("cursor movement", () => {
+    const terminal = new VirtualTerminal({ size: { columns: 10, rows: 3 } });
+
+    write(terminal, moveCursor(1, 2) + "abc");
+    assertEquals(terminal.rowText(1), "  abc     ");
+    assertEquals(terminal.cursor, { row: 1, column: 5 });
+
+    write(terminal, "\x1b[2D!\x1b[A?");
+    assertEquals(terminal.rowText(0), "    ?     ");
+    assertEquals(terminal.rowText(1), "  a!c     ");
+
+    write(terminal, "\x1b[2J");
+    assertEquals(terminal.text(), " ".repeat(10) + "\n" + " ".repeat(10) + "\n" + " ".repeat(10));
+  });
+
+  await t.step("SGR styles", () => {
+    const terminal = new VirtualTerminal({ size: { columns: 10, rows: 1 } });
+
+    write(terminal, "\x1b[31;1ma\x1b[44mb\x1b[22;39mc\x1b[0md\x1b[38;5;200me\x1b[m");
+    assertEquals(terminal.cell(0, 0), { char: "a", style: "1;31" });
+    assertEquals(terminal.cell(0, 1), { char: "b", style: "1;31;44" });
+    assertEquals(terminal.cell(0, 2), { char: "c", style: "44" });
+    assertEquals(terminal.cell(0, 3), { char: "d", style: "" });
+    assertEquals(terminal.cell(0, 4), { char: "e", style: "38;5;200" });
+  });
+
+  await t.step("wide characters", () => {
+    const terminal = new VirtualTerminal({ size: { columns: 6, rows: 1 } });
+
+    write(terminal, "テク!");
+    assertEquals(terminal.cell(0, 0)?.char, "テ");
+    assertEquals(terminal.cell(0, 1)?.char, "");
+    assertEquals(terminal.cell(0, 2)?.char, "ク");
+    assertEquals(terminal.cell(0, 4)?.char, "!");
+    assertEquals(terminal.rowText(0), "テク! ");
+  });
+
+  await t.step("sequences split across writes", () => {
+    const terminal = new VirtualTerminal({ size: { columns: 4, rows: 2 } });
+
+    write(terminal, "\x1b[2;");
+    write(terminal, "3Hx");
+    assertEquals(terminal.cell(1, 2)?.char, "x");
+  });
+
+  await t.step("resize()", () => {
+    const terminal = new VirtualTerminal({ size: { columns: 4, rows: 2 } });
+
+    write(terminal, "abcd");
+    terminal.resize(2, 3);
+    assertEquals(terminal.text(), "ab\n  \n  ");
+
+    terminal.size.value.columns = 3;
+    assertEquals(terminal.rowText(0), "ab ");
+  });
+
+  await t.step("input", async () => {
+    const terminal = new VirtualTerminal();
+    const buffer = new Uint8Array(2);
+
+    terminal.pushInput("abc");
+    assertEquals(await terminal.read(buffer), 2);
+    assertEquals(buffer, textEncoder.encode("ab"));
+    assertEquals(await terminal.read(buffer), 1);
+    assertEquals(buffer.subarray(0, 1), textEncoder.encode("c"));
+
+    const pending = terminal.read(buffer);
+    terminal.close();
+    assertEquals(await pending, null);
+  });
+
+  await t.step("Tui", async () => {
+    const terminal = new VirtualTerminal({ size: { columns: 12, rows: 3 } });
+
+    const tui = new Tui({
+      stdin: terminal,
+      stdout: terminal,
+      size: terminal.size,
+    });
+
+    new Text({
+      parent: tui,
+      text: "Hello",
+      theme: { base: (text) => `\x1b[1m${text}\x1b[0m` },
+      rectangle: { column: 1, row: 1 },
+      zIndex: 0,
+    });
+
+    // Components add themselves to Tui in a microtask
+    await Promise.resolve();
+    tui.canvas.render();
+
+    assertEquals(terminal.rowText(1), " Hello      ");
+    assertEquals(terminal.cell(1, 1), { char: "H", style: "1" });
+
+    terminal.resize(20, 4);
+    assertEquals(tui.rectangle.value, { column: 0, row: 0, width: 20, height: 4 });
+
+    const keyPresses: string[] = [];
+    tui.on("keyPress", ({ key }: KeyPressEvent) => {
+      keyPresses.push(key);
+    });
+
+    terminal.pushInput("a");
+    terminal.close();
+    await emitInputEvents(terminal, tui, 0);
+
+    assertEquals(terminal.raw, true);
+    assertEquals(keyPresses, ["a"]);
+
+    tui.destroy();
+  });
+});